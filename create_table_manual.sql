@@ -1,41 +1,305 @@
--- PostgreSQL Table Creation Script for Cursor Analytics
--- Run this script in pgAdmin4 or psql to manually create the table
--- Updated to simplified schema with only 5 columns as requested
-
--- Replace 'your_table_name' with your actual table name
--- e.g., 'cursor_query_results' or whatever you specified in the extension setup
-
-CREATE TABLE IF NOT EXISTS your_table_name (
-  id BIGSERIAL PRIMARY KEY,
-  created_at TIMESTAMPTZ DEFAULT TIMEZONE('utc'::text, NOW()),
-  timestamp TEXT NOT NULL,
-  prompt TEXT NOT NULL,
-  user_id TEXT NOT NULL
-);
-
--- Create indexes for better query performance
-CREATE INDEX IF NOT EXISTS idx_your_table_name_created_at ON your_table_name(created_at);
-CREATE INDEX IF NOT EXISTS idx_your_table_name_timestamp ON your_table_name(timestamp);
-CREATE INDEX IF NOT EXISTS idx_your_table_name_user_id ON your_table_name(user_id);
-
--- Example insert to test the table
-INSERT INTO your_table_name (timestamp, prompt, user_id) 
-VALUES 
-    ('2024-01-01T10:30:00Z', 'Sample prompt for testing', 'test_user'),
-    ('2024-01-01T10:31:00Z', 'Another test prompt', 'test_user');
-
--- Query to check the data
-SELECT * FROM your_table_name ORDER BY created_at DESC;
-
--- Verify table creation
-SELECT table_name, column_name, data_type, is_nullable 
-FROM information_schema.columns 
-WHERE table_name = 'your_table_name' 
-ORDER BY ordinal_position;
-
--- Example insert to test the table
-INSERT INTO your_table_name (timestamp, prompt, user_id) 
-VALUES ('2025-10-09T10:00:00Z', 'Test prompt', 'test_user');
-
--- Check if the insert worked
-SELECT * FROM your_table_name LIMIT 5;
\ No newline at end of file
+-- PostgreSQL Table Creation Script for Cursor Analytics
+-- Run this script in pgAdmin4 or psql to manually create the table
+-- The extension creates and upgrades this schema itself through the migrations in
+-- src/schemaMigrations.ts; this script mirrors them up to version 12 for manual setups
+
+-- Replace 'your_table_name' with your actual table name
+-- e.g., 'cursor_query_results' or whatever you specified in the extension setup
+
+CREATE TABLE IF NOT EXISTS your_table_name (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT TIMEZONE('utc'::text, NOW()),
+  timestamp TEXT NOT NULL,
+  prompt TEXT,
+  user_id TEXT NOT NULL,
+  composer_id TEXT,
+  bubble_id TEXT,
+  response TEXT,
+  response_length INTEGER,
+  response_latency_ms BIGINT,
+  source_id TEXT,
+  redactions JSONB,
+  -- full, truncated, hashed or metadata; prompt is NULL for metadata-only rows
+  privacy_level TEXT,
+  prompt_length INTEGER,
+  prompt_token_estimate INTEGER,
+  response_token_estimate INTEGER
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_your_table_name_created_at ON your_table_name(created_at);
+CREATE INDEX IF NOT EXISTS idx_your_table_name_timestamp ON your_table_name(timestamp);
+CREATE INDEX IF NOT EXISTS idx_your_table_name_user_id ON your_table_name(user_id);
+-- Prompts per source database (one user can sync several Cursor installs)
+CREATE INDEX IF NOT EXISTS idx_your_table_name_user_source ON your_table_name(user_id, source_id);
+
+-- Natural key: a prompt is stored once per user, composer and bubble
+CREATE UNIQUE INDEX IF NOT EXISTS uq_your_table_name_natural_key ON your_table_name(user_id, composer_id, bubble_id);
+
+-- Composer conversations that synced prompts belong to
+CREATE TABLE IF NOT EXISTS sessions (
+  user_id TEXT NOT NULL,
+  composer_id TEXT NOT NULL,
+  name TEXT,
+  created_at TIMESTAMPTZ,
+  status TEXT,
+  conversation_length INTEGER,
+  updated_at TIMESTAMPTZ DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (user_id, composer_id)
+);
+
+ALTER TABLE your_table_name
+  ADD CONSTRAINT fk_your_table_name_session
+  FOREIGN KEY (user_id, composer_id) REFERENCES sessions(user_id, composer_id);
+
+-- Sync position per user, source database and prompt table
+CREATE TABLE IF NOT EXISTS sync_watermarks (
+  user_id TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  client_rpc_send_time BIGINT NOT NULL,
+  composer_id TEXT NOT NULL,
+  bubble_id TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (user_id, source_id, table_name)
+);
+
+-- Per-developer enrollment tokens (migration 6); tokens are stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS enrollment_tokens (
+  token_hash TEXT PRIMARY KEY,
+  user_id TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  expires_at TIMESTAMPTZ,
+  redeemed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Issue a token (requires pgcrypto) and hand the plain value to the developer:
+-- CREATE EXTENSION IF NOT EXISTS pgcrypto;
+-- INSERT INTO enrollment_tokens (token_hash, note, expires_at)
+-- VALUES (encode(digest('the-token-value', 'sha256'), 'hex'), 'alice laptop', NOW() + INTERVAL '30 days');
+-- Revoke it:
+-- UPDATE enrollment_tokens SET revoked_at = NOW() WHERE note = 'alice laptop';
+
+-- One row per personal data erasure; the user is identified by a SHA-256 hash only
+CREATE TABLE IF NOT EXISTS data_erasure_audit (
+  id BIGSERIAL PRIMARY KEY,
+  user_id_hash TEXT NOT NULL,
+  erased_at TIMESTAMPTZ DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  row_counts JSONB NOT NULL
+);
+
+-- Record the mirrored migrations so the extension does not re-apply them
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  table_name TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (table_name, version)
+);
+
+INSERT INTO schema_migrations (table_name, version, name)
+VALUES
+    ('your_table_name', 1, 'create prompt table'),
+    ('your_table_name', 2, 'sync watermarks'),
+    ('your_table_name', 3, 'prompt natural key'),
+    ('your_table_name', 4, 'ai response columns'),
+    ('your_table_name', 5, 'composer sessions'),
+    ('your_table_name', 6, 'enrollment tokens'),
+    ('your_table_name', 7, 'prompt source'),
+    ('your_table_name', 8, 'redaction findings'),
+    ('your_table_name', 9, 'privacy levels'),
+    ('your_table_name', 10, 'erasure audit'),
+    ('your_table_name', 11, 'watermark per prompt table'),
+    ('your_table_name', 12, 'server-side enrollment')
+ON CONFLICT DO NOTHING;
+
+-- Server-side enrollment (migration 12); run as a role with CREATEROLE on PostgreSQL 13+.
+-- Then create the login clients redeem tokens through, e.g.
+-- CREATE ROLE team_enrollment LOGIN PASSWORD 'choose-a-password' IN ROLE cursor_prompt_sync_enroller;
+-- Enrolled users log in as their own role, a member of cursor_prompt_sync_writer, and only see their own rows.
+-- No login is created here: admins grant cursor_prompt_sync_enroller to the login that clients redeem tokens through.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'cursor_prompt_sync_writer') THEN
+        CREATE ROLE cursor_prompt_sync_writer NOLOGIN;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'cursor_prompt_sync_enroller') THEN
+        CREATE ROLE cursor_prompt_sync_enroller NOLOGIN;
+    END IF;
+    EXECUTE format('GRANT USAGE ON SCHEMA %I TO cursor_prompt_sync_writer, cursor_prompt_sync_enroller', current_schema());
+    EXECUTE format('GRANT USAGE ON ALL SEQUENCES IN SCHEMA %I TO cursor_prompt_sync_writer', current_schema());
+END $$;
+
+-- Which login belongs to which user ID; written only by redeem_enrollment_token
+CREATE TABLE IF NOT EXISTS enrolled_logins (
+    login_role TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- Every redemption attempt, so repeated failures lock out further guesses
+CREATE TABLE IF NOT EXISTS enrollment_attempts (
+    id BIGSERIAL PRIMARY KEY,
+    login_role TEXT NOT NULL,
+    user_id TEXT,
+    client_addr INET,
+    succeeded BOOLEAN NOT NULL,
+    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_enrollment_attempts_attempted_at ON enrollment_attempts(attempted_at);
+
+CREATE OR REPLACE FUNCTION enrolled_user_id()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path FROM CURRENT
+AS $fn$
+    SELECT user_id FROM enrolled_logins WHERE login_role = session_user
+$fn$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON your_table_name, sessions, sync_watermarks TO cursor_prompt_sync_writer;
+-- Erasures read back their audit ID and time, nothing else of the audit trail
+GRANT INSERT, SELECT (id, erased_at) ON data_erasure_audit TO cursor_prompt_sync_writer;
+GRANT SELECT ON schema_migrations TO cursor_prompt_sync_writer;
+
+ALTER TABLE your_table_name ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS enrolled_user_rows ON your_table_name;
+CREATE POLICY enrolled_user_rows ON your_table_name TO cursor_prompt_sync_writer
+    USING (user_id = enrolled_user_id()) WITH CHECK (user_id = enrolled_user_id());
+DROP POLICY IF EXISTS other_roles ON your_table_name;
+CREATE POLICY other_roles ON your_table_name
+    USING (NOT pg_has_role(current_user, 'cursor_prompt_sync_writer', 'MEMBER'))
+    WITH CHECK (NOT pg_has_role(current_user, 'cursor_prompt_sync_writer', 'MEMBER'));
+
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS enrolled_user_rows ON sessions;
+CREATE POLICY enrolled_user_rows ON sessions TO cursor_prompt_sync_writer
+    USING (user_id = enrolled_user_id()) WITH CHECK (user_id = enrolled_user_id());
+DROP POLICY IF EXISTS other_roles ON sessions;
+CREATE POLICY other_roles ON sessions
+    USING (NOT pg_has_role(current_user, 'cursor_prompt_sync_writer', 'MEMBER'))
+    WITH CHECK (NOT pg_has_role(current_user, 'cursor_prompt_sync_writer', 'MEMBER'));
+
+ALTER TABLE sync_watermarks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS enrolled_user_rows ON sync_watermarks;
+CREATE POLICY enrolled_user_rows ON sync_watermarks TO cursor_prompt_sync_writer
+    USING (user_id = enrolled_user_id()) WITH CHECK (user_id = enrolled_user_id());
+DROP POLICY IF EXISTS other_roles ON sync_watermarks;
+CREATE POLICY other_roles ON sync_watermarks
+    USING (NOT pg_has_role(current_user, 'cursor_prompt_sync_writer', 'MEMBER'))
+    WITH CHECK (NOT pg_has_role(current_user, 'cursor_prompt_sync_writer', 'MEMBER'));
+
+-- Checks the token and binds it to the user on first use, then (re)issues that user's login with a fresh password.
+-- Returns no row when the token is unknown, expired, revoked or bound to another user.
+-- After 5 failures for a user ID or client, or 50 overall, within 15 minutes every attempt is refused.
+CREATE OR REPLACE FUNCTION redeem_enrollment_token(p_token TEXT, p_user_id TEXT)
+RETURNS TABLE (login_user TEXT, login_password TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path FROM CURRENT
+AS $fn$
+DECLARE
+    v_role TEXT := 'cursor_prompt_sync_' || left(md5(p_user_id), 24);
+    v_password TEXT := encode(sha256(convert_to(gen_random_uuid()::text || gen_random_uuid()::text, 'UTF8')), 'hex');
+BEGIN
+    -- One redemption at a time, so concurrent guesses cannot slip past the lockout count
+    PERFORM pg_advisory_xact_lock(hashtext('redeem_enrollment_token'));
+    IF (SELECT COUNT(*) FROM enrollment_attempts
+        WHERE NOT succeeded AND attempted_at > NOW() - INTERVAL '15 minutes'
+          AND (user_id = p_user_id OR client_addr IS NOT DISTINCT FROM inet_client_addr())) >= 5
+       OR (SELECT COUNT(*) FROM enrollment_attempts
+           WHERE NOT succeeded AND attempted_at > NOW() - INTERVAL '15 minutes') >= 50 THEN
+        RAISE EXCEPTION 'Too many failed enrollment attempts - try again in 15 minutes';
+    END IF;
+
+    UPDATE enrollment_tokens
+    SET user_id = COALESCE(user_id, p_user_id), redeemed_at = COALESCE(redeemed_at, NOW())
+    WHERE token_hash = encode(sha256(convert_to(p_token, 'UTF8')), 'hex')
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND (user_id IS NULL OR user_id = p_user_id);
+    IF NOT FOUND THEN
+        INSERT INTO enrollment_attempts (login_role, user_id, client_addr, succeeded)
+        VALUES (session_user, p_user_id, inet_client_addr(), false);
+        RETURN;
+    END IF;
+    INSERT INTO enrollment_attempts (login_role, user_id, client_addr, succeeded)
+    VALUES (session_user, p_user_id, inet_client_addr(), true);
+
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = v_role) THEN
+        EXECUTE format('ALTER ROLE %I LOGIN PASSWORD %L', v_role, v_password);
+    ELSE
+        EXECUTE format('CREATE ROLE %I LOGIN PASSWORD %L IN ROLE cursor_prompt_sync_writer', v_role, v_password);
+    END IF;
+    INSERT INTO enrolled_logins (login_role, user_id)
+    VALUES (v_role, p_user_id)
+    ON CONFLICT (login_role) DO UPDATE SET user_id = EXCLUDED.user_id, enrolled_at = NOW();
+
+    login_user := v_role;
+    login_password := v_password;
+    RETURN NEXT;
+END
+$fn$;
+
+-- Enrolled logins cannot read enrollment_tokens; these act on the caller's own tokens only
+CREATE OR REPLACE FUNCTION my_enrollment_tokens()
+RETURNS SETOF enrollment_tokens
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path FROM CURRENT
+AS $fn$
+    SELECT * FROM enrollment_tokens WHERE user_id = enrolled_user_id() ORDER BY created_at
+$fn$;
+
+-- Deletes the caller's tokens and disables their login once the transaction commits
+CREATE OR REPLACE FUNCTION forget_my_enrollment()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path FROM CURRENT
+AS $fn$
+DECLARE
+    v_user TEXT := enrolled_user_id();
+    v_count INTEGER;
+BEGIN
+    IF v_user IS NULL THEN
+        RAISE EXCEPTION 'The current login is not an enrolled login';
+    END IF;
+    DELETE FROM enrollment_tokens WHERE user_id = v_user;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    EXECUTE format('ALTER ROLE %I NOLOGIN PASSWORD NULL', session_user);
+    RETURN v_count;
+END
+$fn$;
+
+REVOKE ALL ON FUNCTION redeem_enrollment_token(TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION my_enrollment_tokens() FROM PUBLIC;
+REVOKE ALL ON FUNCTION forget_my_enrollment() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION redeem_enrollment_token(TEXT, TEXT) TO cursor_prompt_sync_enroller;
+GRANT EXECUTE ON FUNCTION my_enrollment_tokens(), forget_my_enrollment() TO cursor_prompt_sync_writer;
+
+-- Example insert to test the table
+INSERT INTO your_table_name (timestamp, prompt, user_id) 
+VALUES 
+    ('2024-01-01T10:30:00Z', 'Sample prompt for testing', 'test_user'),
+    ('2024-01-01T10:31:00Z', 'Another test prompt', 'test_user');
+
+-- Query to check the data
+SELECT * FROM your_table_name ORDER BY created_at DESC;
+
+-- Verify table creation
+SELECT table_name, column_name, data_type, is_nullable 
+FROM information_schema.columns 
+WHERE table_name = 'your_table_name' 
+ORDER BY ordinal_position;
+
+-- Example insert to test the table
+INSERT INTO your_table_name (timestamp, prompt, user_id) 
+VALUES ('2025-10-09T10:00:00Z', 'Test prompt', 'test_user');
+
+-- Check if the insert worked
+SELECT * FROM your_table_name LIMIT 5;
@@ -0,0 +1,183 @@
+import { DatabaseManager } from './databaseManager';
+import { PostgresManager, PROMPT_LENGTH_BUCKETS } from './postgresManager';
+import { AutoScheduler } from './autoScheduler';
+import { getUserIdSecret } from './secretStorage';
+
+export interface DashboardFilters {
+    /** Inclusive range as YYYY-MM-DD dates in the local time zone */
+    startDate?: string;
+    endDate?: string;
+    userId?: string;
+}
+
+export interface DashboardData {
+    source: 'postgres' | 'local';
+    sourceNotice?: string;
+    filters: DashboardFilters;
+    users: string[];
+    totalPrompts: number;
+    promptsOverTime: Array<{ period: string; promptCount: number }>;
+    /** Prompt counts indexed by [weekday 0-6, Sunday first][hour 0-23] */
+    heatmap: number[][];
+    lengthDistribution: Array<{ label: string; promptCount: number }>;
+    topSessions: Array<{ name: string; promptCount: number }>;
+    syncHealth: {
+        isRunning: boolean;
+        intervalMinutes: number;
+        lastExecution: Date | null;
+        executionCount: number;
+        errorCount: number;
+        lastPromptAt: string | null;
+    };
+}
+
+/**
+ * Loads prompt analytics for the dashboard from PostgreSQL, or from the local
+ * Cursor database when PostgreSQL is not reachable
+ */
+export class AnalyticsDashboard {
+    constructor(
+        private databaseManager: DatabaseManager,
+        private postgresManager: PostgresManager,
+        private autoScheduler: AutoScheduler
+    ) {}
+
+    async loadData(filters: DashboardFilters): Promise<DashboardData> {
+        if (this.postgresManager.isInitialized()) {
+            try {
+                return await this.loadFromPostgres(filters);
+            } catch (error: any) {
+                const data = await this.loadFromLocal(filters);
+                data.sourceNotice = `PostgreSQL unavailable (${error.message}) - showing local data`;
+                return data;
+            }
+        }
+
+        const data = await this.loadFromLocal(filters);
+        data.sourceNotice = 'PostgreSQL not connected - showing local data';
+        return data;
+    }
+
+    private async loadFromPostgres(filters: DashboardFilters): Promise<DashboardData> {
+        const options = {
+            groupBy: 'day' as const,
+            startDate: this.toRangeStart(filters.startDate)?.toISOString(),
+            endDate: this.toRangeEnd(filters.endDate)?.toISOString(),
+            userId: filters.userId || undefined,
+            sessionLimit: 10
+        };
+
+        const analytics = await this.postgresManager.getAnalytics(options);
+        const distributions = await this.postgresManager.getPromptDistributions(options);
+        const users = await this.postgresManager.getPromptUsers();
+
+        return {
+            source: 'postgres',
+            filters,
+            users,
+            totalPrompts: analytics.totalPrompts,
+            promptsOverTime: analytics.promptsPerPeriod
+                .map(period => ({ period: period.period, promptCount: period.promptCount }))
+                .reverse(),
+            heatmap: distributions.heatmap,
+            lengthDistribution: this.labelLengthHistogram(distributions.lengthHistogram),
+            topSessions: analytics.sessions.map(session => ({
+                name: session.name || session.composerId,
+                promptCount: session.promptCount
+            })),
+            syncHealth: {
+                ...this.autoScheduler.getStatus(),
+                lastPromptAt: analytics.lastPromptAt ? `${analytics.lastPromptAt} UTC` : null
+            }
+        };
+    }
+
+    private async loadFromLocal(filters: DashboardFilters): Promise<DashboardData> {
+        const localUserId = await getUserIdSecret() || 'local_user';
+        const rangeStart = this.toRangeStart(filters.startDate);
+        const rangeEnd = this.toRangeEnd(filters.endDate);
+
+        // Same extraction the scheduler syncs, over the full local history
+        const rows = await this.databaseManager.executeQuery(
+            this.autoScheduler.getOptimizedQuery(), undefined, this.autoScheduler.getWatermarkParams(null));
+
+        const perDay = new Map<string, number>();
+        const perSession = new Map<string, { name: string; promptCount: number }>();
+        const heatmap: number[][] = Array.from({ length: 7 }, () => new Array(24).fill(0));
+        const lengthHistogram: number[] = new Array(PROMPT_LENGTH_BUCKETS.length + 1).fill(0);
+        let totalPrompts = 0;
+        let lastPromptMs: number | null = null;
+
+        const includeRows = !filters.userId || filters.userId === localUserId;
+
+        for (const row of includeRows ? rows : []) {
+            if (!row.prompt) {
+                continue;
+            }
+
+            const sentAt = new Date(Number(row.client_rpc_send_time));
+            if ((rangeStart && sentAt < rangeStart) || (rangeEnd && sentAt > rangeEnd)) {
+                continue;
+            }
+
+            totalPrompts++;
+            lastPromptMs = Math.max(lastPromptMs ?? 0, sentAt.getTime());
+
+            const day = this.formatLocalDate(sentAt);
+            perDay.set(day, (perDay.get(day) || 0) + 1);
+            heatmap[sentAt.getDay()][sentAt.getHours()]++;
+
+            const length = String(row.prompt).length;
+            const bucket = PROMPT_LENGTH_BUCKETS.findIndex(bound => length < bound);
+            lengthHistogram[bucket === -1 ? PROMPT_LENGTH_BUCKETS.length : bucket]++;
+
+            if (row.composer_id) {
+                const session = perSession.get(row.composer_id) || { name: row.session_name || row.composer_id, promptCount: 0 };
+                session.promptCount++;
+                perSession.set(row.composer_id, session);
+            }
+        }
+
+        return {
+            source: 'local',
+            filters,
+            users: [localUserId],
+            totalPrompts,
+            promptsOverTime: Array.from(perDay.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([period, promptCount]) => ({ period, promptCount })),
+            heatmap,
+            lengthDistribution: this.labelLengthHistogram(lengthHistogram),
+            topSessions: Array.from(perSession.values())
+                .sort((a, b) => b.promptCount - a.promptCount)
+                .slice(0, 10),
+            syncHealth: {
+                ...this.autoScheduler.getStatus(),
+                lastPromptAt: lastPromptMs !== null ? new Date(lastPromptMs).toLocaleString() : null
+            }
+        };
+    }
+
+    private labelLengthHistogram(histogram: number[]): Array<{ label: string; promptCount: number }> {
+        return histogram.map((promptCount, index) => {
+            const lower = index === 0 ? 0 : PROMPT_LENGTH_BUCKETS[index - 1];
+            const upper = PROMPT_LENGTH_BUCKETS[index];
+            const label = upper !== undefined ? `${lower}-${upper - 1}` : `${lower}+`;
+            return { label, promptCount };
+        });
+    }
+
+    private toRangeStart(date?: string): Date | undefined {
+        return date ? new Date(`${date}T00:00:00`) : undefined;
+    }
+
+    private toRangeEnd(date?: string): Date | undefined {
+        return date ? new Date(`${date}T23:59:59.999`) : undefined;
+    }
+
+    private formatLocalDate(date: Date): string {
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+}
@@ -2,12 +2,58 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { DatabaseManager } from './databaseManager';
+import { DatabaseManager, QueryParams } from './databaseManager';
 import { ResultsViewer } from './resultsViewer';
 import { PostgresManager } from './postgresManager';
 import { AutoStartupManager } from './autoStartupManager';
-import { POSTGRES_DEFAULTS } from './postgresDefaults';
-import { getUserIdSecret, setUserIdSecret, getDatabasePathSecret, setDatabasePathSecret } from './secretStorage';
+import { getUserIdSecret, setUserIdSecret, getDatabasePathSecret, setDatabasePathSecret, getDatabaseSourcesSecret, setDatabaseSourcesSecret, getEnrollmentTokenSecret, setEnrollmentTokenSecret, hasPostgresRoleSecret, setPostgresPasswordSecret, getPrivacySaltSecret } from './secretStorage';
+import { SyncWatermark, getSourceId, watermarkFromRows } from './syncWatermark';
+import { SyncOutbox, OutboxSummary } from './syncOutbox';
+import { CircuitBreaker } from './retryPolicy';
+import { DatabaseWatcher } from './databaseWatcher';
+import { findMostRecentDatabase } from './databaseDiscovery';
+import { Redactor } from './redaction';
+import { PrivacyLevel, PRIVACY_LEVELS, PRIVACY_LEVEL_DESCRIPTIONS, getPrivacyLevel, applyPrivacyLevel } from './privacyLevel';
+import { ProjectFilter, ProjectContext, FilterDecision, extractProjectContext, resolveGitRemotes, resolveWorkspaceFolders } from './projectFilter';
+import { ExportManager } from './exportManager';
+
+/** interval polls every intervalMinutes; watch syncs on database changes and polls as a fallback */
+export type SyncMode = 'interval' | 'watch';
+
+/**
+ * Sync state of one source database
+ */
+interface SourceStatus {
+    sourceId: string;
+    databasePath: string;
+    breaker: CircuitBreaker;
+    lastSyncAt: Date | null;
+    promptsStored: number;
+    promptsExcluded: number;
+    lastError: string | null;
+}
+
+/**
+ * A prompt held back by the project filter
+ */
+interface ExcludedPrompt {
+    row: any;
+    decision: FilterDecision;
+    context: ProjectContext;
+}
+
+// Quiet period after the last write to state.vscdb, and the most continuous writes may delay a sync
+const WATCH_DEBOUNCE_MS = 5000;
+const WATCH_MAX_WAIT_MS = 60000;
+
+// Free-text columns of the extraction query that can contain pasted secrets
+const REDACTED_FIELDS = ['prompt', 'response', 'session_name'];
+
+// Synced prompts offered by "Review and Delete Recent Synced Prompts"
+const RECENT_PROMPTS_LIMIT = 100;
+
+// AI bubbles without an end time for longer than this were cancelled rather than still streaming
+const UNFINISHED_BUBBLE_GRACE_MS = 60 * 60 * 1000;
 
 export class AutoScheduler {
     private intervalId: NodeJS.Timeout | null = null;
@@ -18,8 +64,27 @@ export class AutoScheduler {
     private lastExecution: Date | null = null;
     private executionCount: number = 0;
     private errorCount: number = 0;
-    private supabaseRetryCount: number = 0;
-    private maxRetries: number = 3;
+    // Local read failures by error type (DatabaseNotFound, SqlJsInitFailed, QueryFailed, ...)
+    private localErrorCounts: Record<string, number> = {};
+    private lastLocalErrorType: string | null = null;
+    // How often each redaction rule fired, never the matched values
+    private redactionCounts: Record<string, number> = {};
+    private isExecuting: boolean = false;
+    private runRequested: boolean = false;
+    private syncMode: SyncMode = 'interval';
+    private databaseWatchers: DatabaseWatcher[] = [];
+    private retryTimeoutId: NodeJS.Timeout | null = null;
+    private postgresBreaker = new CircuitBreaker('PostgreSQL');
+    // One circuit breaker per source database, so a missing install does not hold back the others
+    private sourceStatuses = new Map<string, SourceStatus>();
+    private outbox: SyncOutbox;
+    private pausedUntil: Date | null = null;
+    private pauseTimerId: NodeJS.Timeout | null = null;
+    // composerId:bubbleId of prompts the user deleted from PostgreSQL; they are never synced again
+    private tombstones = new Set<string>();
+    private exportManager = new ExportManager();
+    // When this window's scheduler was last started, to tell whether an erasure happened after it
+    private startedAt: number | null = null;
 
     constructor(
         private databaseManager: DatabaseManager,
@@ -31,6 +96,7 @@ export class AutoScheduler {
         this.outputChannel = vscode.window.createOutputChannel('Cursor Prompt Sync');
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
         this.statusBarItem.command = 'cursor-sql-runner.toggleAutoScheduler';
+        this.outbox = new SyncOutbox(context.globalStorageUri.fsPath, this.getOutboxMaxBytes());
         
         // Using embedded SQL query - no file setup needed
         
@@ -145,38 +211,13 @@ export class AutoScheduler {
     }
 
     /**
-     * Auto-detect Cursor database path based on operating system
-     * Uses home directory approach - no need for exact username in paths
+     * Auto-detect the Cursor database: the most recently used one across installs and profiles
      */
     private async getAutoDatabasePath(): Promise<string | null> {
-        const platform = os.platform();
-        const homedir = os.homedir();
-        
-        // Try macOS path first
-        if (platform === 'darwin') {
-            const macPath = path.join(homedir, 'Library', 'Application Support', 'Cursor', 'User', 'globalStorage', 'state.vscdb');
-            if (fs.existsSync(macPath)) {
-                this.outputChannel.appendLine(`✅ Found Cursor database at macOS path: ${macPath}`);
-                return macPath;
-            }
-        }
-        
-        // Try Windows path using home directory
-        if (platform === 'win32') {
-            const winPath = path.join(homedir, 'AppData', 'Roaming', 'Cursor', 'User', 'globalStorage', 'state.vscdb');
-            if (fs.existsSync(winPath)) {
-                this.outputChannel.appendLine(`✅ Found Cursor database at Windows path: ${winPath}`);
-                return winPath;
-            }
-        }
-        
-        // Try Linux path using home directory
-        if (platform === 'linux') {
-            const linuxPath = path.join(homedir, '.config', 'Cursor', 'User', 'globalStorage', 'state.vscdb');
-            if (fs.existsSync(linuxPath)) {
-                this.outputChannel.appendLine(`✅ Found Cursor database at Linux path: ${linuxPath}`);
-                return linuxPath;
-            }
+        const databasePath = findMostRecentDatabase();
+        if (databasePath) {
+            this.outputChannel.appendLine(`✅ Found Cursor database: ${databasePath}`);
+            return databasePath;
         }
         
         this.outputChannel.appendLine(`❌ Cursor database not found in any standard locations`);
@@ -277,53 +318,52 @@ export class AutoScheduler {
 
 
     /**
-     * Get the optimized SQL query with dynamic timestamp injection and robust exclusion filters
+     * Get the optimized SQL query for all finished AI bubbles after the watermark bound by getWatermarkParams.
+     * Rows are ordered by (clientRpcSendTime, composerId, bubbleId), the same order the watermark uses.
      */
-    private getOptimizedQuery(targetTimestamp: string): string {
-        // Check if targetTimestamp is already in milliseconds or a timestamp
-        let targetMs: number;
-        let targetTimestampStr: string;
-        
-        if (/^\d+$/.test(targetTimestamp)) {
-            // It's already milliseconds
-            targetMs = parseInt(targetTimestamp);
-            targetTimestampStr = new Date(targetMs).toISOString().replace('.000Z', '').replace('Z', '');
-        } else {
-            // It's a timestamp, convert to milliseconds
-            const timestampDate = new Date(targetTimestamp);
-            targetMs = timestampDate.getTime();
-            targetTimestampStr = targetTimestamp;
-        }
-        
-        return `WITH timestamp_variable AS (
-    -- Use actual milliseconds value for accurate comparison
-    SELECT ${targetMs} AS target_ms,
-           '${targetTimestampStr}' AS target_timestamp
+    public getOptimizedQuery(): string {
+        return `WITH watermark AS (
+    SELECT CAST($target_ms AS INTEGER) AS target_ms,
+           $target_composer_id AS target_composer_id,
+           $target_bubble_id AS target_bubble_id
 ),
--- Filter bubbles that are AFTER the last stored timestamp (strict exclusion)
-timestamp_filtered_bubbles AS (
+-- Coarse filter on the send time; ties on the same millisecond are resolved below
+candidate_bubbles AS (
     SELECT
         json_extract(value, '$.bubbleId') AS bubble_id,
-        json_extract(value, '$.type') AS type,
-        json_extract(value, '$.timingInfo.clientRpcSendTime') AS client_rpc_send_time,
+        json_extract(value, '$.text') AS response,
+        CAST(json_extract(value, '$.timingInfo.clientRpcSendTime') AS INTEGER) AS client_rpc_send_time,
+        CAST(COALESCE(
+            json_extract(value, '$.timingInfo.clientEndTime'),
+            json_extract(value, '$.timingInfo.clientSettleTime')
+        ) AS INTEGER) AS client_end_time,
         datetime(
             json_extract(value, '$.timingInfo.clientRpcSendTime')/1000,
             'unixepoch'
         ) AS readable_time
-    FROM cursorDiskKV, timestamp_variable
+    FROM cursorDiskKV, watermark
     WHERE key LIKE 'bubbleId:%'
       AND json_extract(value, '$.type') = 2
       AND json_extract(value, '$.timingInfo') IS NOT NULL
       AND json_extract(value, '$.timingInfo.clientRpcSendTime') IS NOT NULL
-      -- Use > (strictly greater than) to exclude exact timestamp and all before it
-      AND CAST(json_extract(value, '$.timingInfo.clientRpcSendTime') AS INTEGER) > target_ms
-      -- Additional safety: exclude records with exact readable timestamp match
-      AND datetime(json_extract(value, '$.timingInfo.clientRpcSendTime')/1000, 'unixepoch') != target_timestamp
+      AND CAST(json_extract(value, '$.timingInfo.clientRpcSendTime') AS INTEGER) >= target_ms
+),
+-- Responses still streaming have no end time yet. Nothing from the first of them on is synced,
+-- so the watermark never moves past a half-written response.
+first_unfinished AS (
+    SELECT MIN(client_rpc_send_time) AS send_ms
+    FROM candidate_bubbles
+    WHERE client_end_time IS NULL
+      AND client_rpc_send_time > CAST(strftime('%s', 'now') AS INTEGER) * 1000 - ${UNFINISHED_BUBBLE_GRACE_MS}
 ),
 -- Get all bubbles with their sequence positions
 bubble_sequence AS (
     SELECT
         json_extract(cursorDiskKV.value, '$.composerId') AS composer_id,
+        json_extract(cursorDiskKV.value, '$.name') AS session_name,
+        json_extract(cursorDiskKV.value, '$.createdAt') AS session_created_at,
+        json_extract(cursorDiskKV.value, '$.status') AS session_status,
+        json_array_length(json_extract(cursorDiskKV.value, '$.fullConversationHeadersOnly')) AS conversation_length,
         json_extract(conversation.value, '$.bubbleId') AS bubble_id,
         json_extract(conversation.value, '$.type') AS type,
         CAST(conversation.key AS INTEGER) AS sequence_index
@@ -331,42 +371,127 @@ bubble_sequence AS (
          json_each(json_extract(cursorDiskKV.value, '$.fullConversationHeadersOnly')) AS conversation
     WHERE cursorDiskKV.key LIKE 'composerData:%'
       AND json_extract(cursorDiskKV.value, '$.fullConversationHeadersOnly') IS NOT NULL
-),
--- Find target info for all timestamp-filtered bubbles
-target_info AS (
-    SELECT
-        bs.composer_id,
-        bs.sequence_index AS target_index,
-        bs.bubble_id AS target_bubble_id
-    FROM bubble_sequence bs
-    JOIN timestamp_filtered_bubbles tfb
-      ON bs.bubble_id = tfb.bubble_id
 )
 SELECT
-    tfb.readable_time AS "timestamp",
-    (
-        SELECT json_extract(bubble_data.value, '$.text')
-        FROM cursorDiskKV bubble_data
-        WHERE bubble_data.key LIKE 'bubbleId:' || target_bs.composer_id || ':' || prev_bs.bubble_id
-    ) AS "prompt"
-FROM timestamp_filtered_bubbles tfb
+    cb.readable_time AS "timestamp",
+    json_extract(prompt_data.value, '$.text') AS "prompt",
+    cb.response AS "response",
+    length(cb.response) AS response_length,
+    -- From the user bubble being sent to the AI bubble finishing
+    cb.client_end_time - COALESCE(
+        json_extract(prompt_data.value, '$.timingInfo.clientRpcSendTime'),
+        json_extract(prompt_data.value, '$.timingInfo.clientStartTime'),
+        cb.client_rpc_send_time
+    ) AS response_latency_ms,
+    cb.client_rpc_send_time AS client_rpc_send_time,
+    target_bs.composer_id AS composer_id,
+    cb.bubble_id AS bubble_id,
+    target_bs.session_name AS session_name,
+    target_bs.session_created_at AS session_created_at,
+    target_bs.session_status AS session_status,
+    target_bs.conversation_length AS conversation_length
+FROM candidate_bubbles cb
 JOIN bubble_sequence target_bs
-  ON tfb.bubble_id = target_bs.bubble_id
-JOIN target_info ti
-  ON target_bs.composer_id = ti.composer_id
- AND target_bs.sequence_index = ti.target_index
+  ON cb.bubble_id = target_bs.bubble_id
 LEFT JOIN bubble_sequence prev_bs
   ON prev_bs.composer_id = target_bs.composer_id
  AND prev_bs.sequence_index = (target_bs.sequence_index - 1)
-ORDER BY tfb.client_rpc_send_time DESC;`;
+LEFT JOIN cursorDiskKV prompt_data
+  ON prompt_data.key = 'bubbleId:' || target_bs.composer_id || ':' || prev_bs.bubble_id
+CROSS JOIN watermark
+CROSS JOIN first_unfinished
+-- Strictly after the watermark: (send time, composer ID, bubble ID) compared as a tuple
+WHERE (cb.client_rpc_send_time > watermark.target_ms
+       OR (cb.client_rpc_send_time = watermark.target_ms
+           AND (target_bs.composer_id > watermark.target_composer_id
+                OR (target_bs.composer_id = watermark.target_composer_id
+                    AND cb.bubble_id > watermark.target_bubble_id))))
+  AND (first_unfinished.send_ms IS NULL OR cb.client_rpc_send_time < first_unfinished.send_ms)
+ORDER BY cb.client_rpc_send_time ASC, target_bs.composer_id ASC, cb.bubble_id ASC;`;
+    }
+
+    /**
+     * Parameters of getOptimizedQuery. The watermark comes from PostgreSQL, so it is bound rather than pasted into the SQL.
+     */
+    public getWatermarkParams(watermark: SyncWatermark | null): QueryParams {
+        return {
+            $target_ms: watermark ? Math.floor(watermark.clientRpcSendTime) : 0,
+            $target_composer_id: watermark ? watermark.composerId : '',
+            $target_bubble_id: watermark ? watermark.bubbleId : ''
+        };
+    }
+
+    /**
+     * Get the project context of the given composers: the composer's own context, its messageRequestContext
+     * entries and the files referenced by its user bubbles. Key ranges keep the lookups on the primary key.
+     */
+    public getProjectContextQuery(composerIds: string[]): string {
+        const composers = composerIds.map(id => `('${id.replace(/'/g, "''")}')`).join(', ');
+
+        return `WITH composers(composer_id) AS (VALUES ${composers})
+SELECT c.composer_id AS composer_id, json_extract(kv.value, '$.context') AS context
+FROM composers c
+JOIN cursorDiskKV kv ON kv.key = 'composerData:' || c.composer_id
+UNION ALL
+SELECT c.composer_id, kv.value
+FROM composers c
+JOIN cursorDiskKV kv
+  ON kv.key > 'messageRequestContext:' || c.composer_id || ':'
+ AND kv.key < 'messageRequestContext:' || c.composer_id || ';'
+UNION ALL
+SELECT c.composer_id,
+       COALESCE(json_extract(kv.value, '$.context'), '') || ' ' ||
+       COALESCE(json_extract(kv.value, '$.relevantFiles'), '') || ' ' ||
+       COALESCE(json_extract(kv.value, '$.attachedCodeChunks'), '')
+FROM composers c
+JOIN cursorDiskKV kv
+  ON kv.key > 'bubbleId:' || c.composer_id || ':'
+ AND kv.key < 'bubbleId:' || c.composer_id || ';'
+WHERE json_extract(kv.value, '$.type') = 1;`;
+    }
+
+    /**
+     * Choose how much prompt content is synced
+     */
+    async configurePrivacyLevel(): Promise<void> {
+        const current = getPrivacyLevel();
+        const pick = await vscode.window.showQuickPick(
+            PRIVACY_LEVELS.map(level => ({
+                label: level === current ? `$(check) ${level}` : level,
+                description: PRIVACY_LEVEL_DESCRIPTIONS[level],
+                level
+            })),
+            { placeHolder: `Privacy level for synced prompts (currently ${current})` }
+        );
+        if (!pick || pick.level === current) {
+            return;
+        }
+
+        await vscode.workspace.getConfiguration('cursorSqlRunner').update('privacy.level', pick.level, vscode.ConfigurationTarget.Global);
+        this.outputChannel.appendLine(`🔒 Privacy level changed from ${current} to ${pick.level} - applies to prompts synced from now on`);
+        vscode.window.showInformationMessage(`Privacy level set to ${pick.level}. Prompts already synced are not changed.`);
+        this.updateStatusBar();
     }
 
     /**
      * Set the interval in minutes
      */
     async setInterval(): Promise<void> {
+        const mode = await vscode.window.showQuickPick([
+            { label: 'Watch for changes', description: 'Sync within seconds of new prompts, poll as a fallback', mode: 'watch' as SyncMode },
+            { label: 'Poll on an interval', description: 'Sync every N minutes', mode: 'interval' as SyncMode }
+        ].map(item => ({ ...item, picked: item.mode === this.syncMode })), {
+            placeHolder: `Sync mode (current: ${this.syncMode === 'watch' ? 'watch for changes' : 'interval'})`
+        });
+
+        if (!mode) {
+            return;
+        }
+
         const input = await vscode.window.showInputBox({
-            prompt: 'Enter interval in minutes (minimum 1)',
+            prompt: mode.mode === 'watch'
+                ? 'Enter the fallback polling interval in minutes (minimum 1)'
+                : 'Enter interval in minutes (minimum 1)',
             value: this.intervalMinutes.toString(),
             validateInput: (value) => {
                 const num = parseInt(value);
@@ -379,6 +504,7 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
 
         if (input) {
             this.intervalMinutes = parseInt(input);
+            this.syncMode = mode.mode;
             this.saveState();
             this.updateStatusBar();
             
@@ -388,15 +514,18 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
                 await this.start();
             }
             
-            vscode.window.showInformationMessage(`Auto-scheduler interval set to ${this.intervalMinutes} minutes`);
+            vscode.window.showInformationMessage(this.syncMode === 'watch'
+                ? `Auto-scheduler syncs on database changes (fallback every ${this.intervalMinutes} minutes)`
+                : `Auto-scheduler interval set to ${this.intervalMinutes} minutes`);
         }
     }
 
     /**
-     * Configure PostgreSQL for the auto-scheduler
-     * This should only be called once during first-time setup
+     * Configure PostgreSQL for the auto-scheduler.
+     * Users either have their own PostgreSQL role (verified by logging in) or an enrollment
+     * token that the server exchanges for a personal role, which is then stored like one.
      */
-    async configurePostgres(silent: boolean = false): Promise<boolean> {
+    async configurePostgres(silent: boolean = false, enrollmentToken?: string): Promise<boolean> {
         try {
             // Check if already configured and working
             if (this.postgresManager.isInitialized()) {
@@ -407,6 +536,9 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
                 }
             }
 
+            const hasOwnRole = await hasPostgresRoleSecret();
+            let token = enrollmentToken?.trim() || await getEnrollmentTokenSecret();
+
             if (!silent) {
                 // Show informative message about first-time setup
                 const proceed = await vscode.window.showInformationMessage(
@@ -420,31 +552,74 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
                     return false;
                 }
 
-                const passwordInput = await vscode.window.showInputBox({
-                    prompt: 'Enter the extension password to configure PostgreSQL (required once)',
-                    password: true,
-                    ignoreFocusOut: true,
-                    placeHolder: 'Extension password for one-time PostgreSQL setup',
-                    validateInput: (value) => {
-                        if (!value || value.trim().length === 0) {
-                            return 'Password is required for PostgreSQL configuration';
-                        }
-                        return null;
+                if (!hasOwnRole && !token) {
+                    const method = await vscode.window.showQuickPick([
+                        { label: 'Enter my enrollment token', description: 'Issued to you by your team admin', useRole: false },
+                        { label: 'Use my own PostgreSQL role', description: 'Connect with your own database user', useRole: true }
+                    ], { placeHolder: 'How do you want to authenticate?', ignoreFocusOut: true });
+
+                    if (!method) {
+                        vscode.window.showWarningMessage('PostgreSQL configuration cancelled - credentials are required');
+                        return false;
                     }
-                });
 
-                if (!passwordInput) {
-                    vscode.window.showWarningMessage('PostgreSQL configuration cancelled - password is required');
-                    return false;
+                    if (method.useRole) {
+                        await vscode.commands.executeCommand('cursor-sql-runner.configurePostgresConnection');
+                        return this.postgresManager.isInitialized();
+                    }
+
+                    const tokenInput = await vscode.window.showInputBox({
+                        prompt: 'Enter your enrollment token',
+                        password: true,
+                        ignoreFocusOut: true,
+                        placeHolder: 'Personal enrollment token',
+                        validateInput: (value) => value.trim() ? null : 'Enrollment token is required'
+                    });
+
+                    if (!tokenInput) {
+                        vscode.window.showWarningMessage('PostgreSQL configuration cancelled - enrollment token is required');
+                        return false;
+                    }
+                    token = tokenInput.trim();
+                }
+            }
+
+            if (!hasOwnRole && !token) {
+                this.outputChannel.appendLine(`⚠️ No enrollment token or PostgreSQL role configured`);
+                return false;
+            }
+
+            // The server checks the token and returns a personal login; nothing connects before that
+            if (!hasOwnRole && token) {
+                const redeemPromise = this.postgresManager.redeemEnrollmentToken(token);
+                if (!silent) {
+                    vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: "Redeeming enrollment token...",
+                        cancellable: false
+                    }, () => redeemPromise.catch(() => undefined));
                 }
 
-                if (passwordInput.trim() !== 'YorkIEinterns') {
-                    vscode.window.showErrorMessage('Incorrect extension password. PostgreSQL configuration aborted.');
+                const credentials = await redeemPromise;
+                if (!credentials) {
+                    await setEnrollmentTokenSecret(undefined);
+                    const message = 'Enrollment token was rejected by the server (unknown, expired, revoked or issued to another user)';
+                    if (!silent) {
+                        vscode.window.showErrorMessage(message);
+                    }
+                    this.outputChannel.appendLine(`❌ ${message}`);
                     return false;
                 }
 
+                await vscode.workspace.getConfiguration('cursorSqlRunner.postgres').update('user', credentials.user, vscode.ConfigurationTarget.Global);
+                await setPostgresPasswordSecret(credentials.password);
+                // The token has served its purpose once the personal login is stored
+                await setEnrollmentTokenSecret(undefined);
+            }
+
+            const initializePromise = this.postgresManager.initialize(undefined, silent);
+            if (!silent) {
                 // Show progress during initialization
-                const initializePromise = this.postgresManager.initialize();
                 vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
                     title: "Configuring PostgreSQL...",
@@ -453,25 +628,25 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
                     progress.report({ increment: 0, message: "Establishing connection..." });
                     return initializePromise;
                 });
+            }
 
-                const initialized = await initializePromise;
-                if (!initialized) {
-                    throw new Error('Failed to establish PostgreSQL connection');
-                }
-
-                vscode.window.showInformationMessage('✅ PostgreSQL configured successfully! Configuration saved for future use.');
-            } else {
-                // Silent initialization (already configured before)
-                const initialized = await this.postgresManager.initialize();
-                if (!initialized) {
+            const initialized = await initializePromise;
+            if (!initialized) {
+                if (silent) {
                     this.outputChannel.appendLine(`⚠️ PostgreSQL initialization failed - may need reconfiguration`);
                     return false;
                 }
+                throw new Error('Failed to establish PostgreSQL connection');
+            }
+
+            if (!silent) {
+                vscode.window.showInformationMessage('✅ PostgreSQL configured successfully! Configuration saved for future use.');
             }
 
+            this.postgresBreaker.reset();
             this.outputChannel.appendLine(`✅ PostgreSQL configuration completed and saved`);
+            this.outputChannel.appendLine(`🔑 Authenticated with ${hasOwnRole ? 'personal PostgreSQL role' : 'enrollment token'}`);
             this.outputChannel.appendLine(`🔄 Auto-scheduler will use PostgreSQL for data storage`);
-            this.outputChannel.appendLine(`💾 Configuration is persistent - no need to reconfigure`);
             return true;
         } catch (error: any) {
             const errorMessage = error?.message ? error.message : error;
@@ -498,18 +673,36 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
         }
 
         this.isRunning = true;
+        this.startedAt = Date.now();
+        if (!silent && this.autoStartupManager && !this.autoStartupManager.isAutoStartupEnabled()) {
+            // Starting by hand undoes an earlier "Keep Off on Launch"
+            this.autoStartupManager.enableAutoStartup();
+        }
+        // An explicit start retries immediately, also after fatal errors the user may have fixed
+        this.postgresBreaker.reset();
+        this.sourceStatuses.forEach(status => status.breaker.reset());
         this.updateStatusBar();
         this.saveState();
 
         // Start the interval
         const intervalMs = this.intervalMinutes * 60 * 1000;
-        this.intervalId = setInterval(() => {
+        this.intervalId = setInterval(async () => {
+            // Re-arm a watcher that failed, e.g. because the database was replaced
+            if (this.syncMode === 'watch' && !this.isWatching()) {
+                await this.startWatcher();
+            }
             this.executeScheduledTask();
         }, intervalMs);
 
+        if (this.syncMode === 'watch') {
+            await this.startWatcher();
+        }
+
         this.outputChannel.appendLine(`🚀 Auto-scheduler started!`);
         this.outputChannel.appendLine(`� Using embedded SQL query (no external file needed)`);
-        this.outputChannel.appendLine(`⏰ Interval: ${this.intervalMinutes} minutes`);
+        this.outputChannel.appendLine(this.syncMode === 'watch'
+            ? `👁️ Mode: watching for changes (${this.isWatching() ? 'active' : 'unavailable - polling only'}), fallback every ${this.intervalMinutes} minutes`
+            : `⏰ Interval: ${this.intervalMinutes} minutes`);
         this.outputChannel.appendLine(`🔄 Next execution: ${new Date(Date.now() + intervalMs).toLocaleString()}`);
         
         if (!silent) {
@@ -540,25 +733,37 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
             clearInterval(this.intervalId);
             this.intervalId = null;
         }
+        this.clearRetry();
+        this.stopWatcher();
 
         this.updateStatusBar();
         this.saveState();
 
+        const autoStartupEnabled = this.autoStartupManager?.isAutoStartupEnabled() ?? true;
         this.outputChannel.appendLine(`⏹️ Auto-scheduler stopped at ${new Date().toLocaleString()}`);
-        this.outputChannel.appendLine(`🔄 Will auto-start when VS Code/Cursor is reopened`);
+        this.outputChannel.appendLine(autoStartupEnabled
+            ? `🔄 Will auto-start when VS Code/Cursor is reopened`
+            : `⏹️ Auto-startup is off - stays stopped until started manually`);
         
         if (!silent) {
-            const message = 'Auto-scheduler stopped (will auto-start when VS Code reopens)';
+            const message = autoStartupEnabled
+                ? 'Auto-scheduler stopped (will auto-start when VS Code reopens)'
+                : 'Auto-scheduler stopped';
             
             vscode.window.showInformationMessage(
                 message,
                 'Show Status',
-                'Restart Now'
+                'Restart Now',
+                ...(autoStartupEnabled && this.autoStartupManager ? ['Keep Off on Launch'] : [])
             ).then(selection => {
                 if (selection === 'Show Status') {
                     vscode.commands.executeCommand('cursor-sql-runner.showAutoSchedulerStatus');
                 } else if (selection === 'Restart Now') {
                     vscode.commands.executeCommand('cursor-sql-runner.startAutoScheduler');
+                } else if (selection === 'Keep Off on Launch') {
+                    this.autoStartupManager?.disableAutoStartup();
+                    this.outputChannel.appendLine(`⏹️ Auto-startup turned off - the scheduler stays stopped on launch until started manually`);
+                    this.updateStatusBar();
                 }
             });
         }
@@ -576,316 +781,1393 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
     }
 
     /**
-     * Execute the scheduled task
+     * Pick up a changed list of source databases: re-arm the watchers and sync right away
      */
-    private async executeScheduledTask(): Promise<void> {
-        try {
-            this.outputChannel.appendLine(`\nExecuting scheduled task at ${new Date().toLocaleString()}`);
-            
-            // Get last timestamp from PostgreSQL and modify SQL query
-            let lastStoredTimestamp: string | null = null;
-            const nowIsoString = new Date().toISOString().split('.')[0];
-            let timestampToUse = nowIsoString; // Fallback timestamp
-            
-            try {
-                // Show which user we're processing for
-                const userId = await getUserIdSecret();
-                this.outputChannel.appendLine(`Processing for user: ${userId || 'Not configured'}`);
-                
-                // Check if PostgreSQL client is initialized
-                if (!this.postgresManager.isInitialized()) {
-                    this.outputChannel.appendLine(`PostgreSQL client not initialized - using fallback timestamp: ${timestampToUse}`);
-                } else {
-                    const lastDatapoint = await this.postgresManager.getLastDatapoint();
-                    if (lastDatapoint && lastDatapoint.timestamp) {
-                        lastStoredTimestamp = lastDatapoint.timestamp;
-                        
-                        // Find the ACTUAL milliseconds from SQLite for this timestamp
-                        if (lastStoredTimestamp) {
-                            try {
-                                const cleanedStoredTimestamp = lastStoredTimestamp.replace('T', ' ');
-                                const findActualMsQuery = `
-                                    SELECT json_extract(value, '$.timingInfo.clientRpcSendTime') AS actual_ms
-                                    FROM cursorDiskKV 
-                                    WHERE key LIKE 'bubbleId:%' 
-                                      AND json_extract(value, '$.type') = 2 
-                                      AND datetime(json_extract(value, '$.timingInfo.clientRpcSendTime')/1000, 'unixepoch') = '${cleanedStoredTimestamp}'
-                                    ORDER BY json_extract(value, '$.timingInfo.clientRpcSendTime') DESC
-                                    LIMIT 1
-                                `;
-                                
-                                const actualMsResult = await this.databaseManager.executeQuery(findActualMsQuery);
-                                if (actualMsResult && actualMsResult.length > 0) {
-                                    const actualMs = actualMsResult[0].actual_ms;
-                                    timestampToUse = actualMs; // Use actual milliseconds directly for SQL query
-                                } else {
-                                    // Fallback to the stored timestamp if we can't find the exact match
-                                    timestampToUse = lastStoredTimestamp.replace(' ', 'T');
-                                }
-                            } catch (findError) {
-                                timestampToUse = lastStoredTimestamp.replace(' ', 'T');
-                            }
-                        }
-                        
-                        // Reset retry count on successful fetch
-                        this.supabaseRetryCount = 0;
-                    } else {
-                        this.outputChannel.appendLine(`No previous data found in PostgreSQL - using fallback timestamp`);
-                        
-                        // Reset retry count on successful connection (even if no data)
-                        this.supabaseRetryCount = 0;
-                    }
-                }
-            } catch (timestampError: any) {
-                const errorMessage = timestampError.message || timestampError;
-                this.outputChannel.appendLine(`Error fetching timestamp from PostgreSQL: ${errorMessage}`);
-                
-                // STOP and retry - don't proceed if we can't fetch timestamp from PostgreSQL
-                if (this.postgresManager.isInitialized()) {
-                    this.supabaseRetryCount++;
-                    this.outputChannel.appendLine(`Failed to fetch timestamp from PostgreSQL (attempt ${this.supabaseRetryCount}/${this.maxRetries})`);
-                    
-                    if (this.supabaseRetryCount < this.maxRetries) {
-                        this.outputChannel.appendLine(`Will retry in ${this.intervalMinutes} minutes`);
-                    } else {
-                        this.outputChannel.appendLine(`Max retries reached - using fallback timestamp`);
-                        this.outputChannel.appendLine(`Proceeding with fallback, but data might be duplicated`);
-                        // Reset retry count for next execution cycle
-                        this.supabaseRetryCount = 0;
-                    }
-                    
-                    if (this.supabaseRetryCount < this.maxRetries) {
-                        return; // Stop execution here - don't proceed to database query or PostgreSQL push
-                    }
-                } else {
-                    this.outputChannel.appendLine(`PostgreSQL not configured - using fallback timestamp`);
-                }
-            }
-
-            // Use the new optimized SQL query with dynamic timestamp
-            const sqlContent = this.getOptimizedQuery(timestampToUse);
-
-            // Execute the SQL query
-            const results = await this.databaseManager.executeQuery(sqlContent);
-            
-            if (results && results.length > 0) {
-                this.outputChannel.appendLine(`Query executed successfully - ${results.length} records returned`);
-                
-                // Filter out any results that match the last stored timestamp
-                const filteredResults = results.filter(result => {
-                    // Normalize both timestamps for comparison
-                    const resultTimestamp = result.timestamp;
-                    const lastTimestamp = timestampToUse;
-                    
-                    // Convert both to the same format for comparison
-                    const resultDate = new Date(resultTimestamp).getTime();
-                    const lastDate = new Date(lastTimestamp).getTime();
-                    
-                    const isMatch = resultDate === lastDate;
-                    
-                    return !isMatch; // Keep only records that DON'T match the last stored timestamp
-                });
-                
-                this.outputChannel.appendLine(`Filtered out ${results.length - filteredResults.length} duplicate timestamps - ${filteredResults.length} new records to process`);
-                
-                if (filteredResults.length === 0) {
-                    this.outputChannel.appendLine(`No new records to process after filtering`);
-                    this.lastExecution = new Date();
-                    this.executionCount++;
-                    this.updateStatusBar();
-                    this.saveState();
-                    return;
-                }
-                
-                // Parse and store in PostgreSQL (simple prompts only)
-                try {
-                    this.outputChannel.appendLine(`Processing results for PostgreSQL storage...`);
-                    
-                    // Check if PostgreSQL is available for storage
-                    if (!this.postgresManager.isInitialized()) {
-                        this.outputChannel.appendLine(`PostgreSQL not configured - skipping cloud storage`);
-                    } else {
-                        // Create results data in the format expected by storeSimplePrompts using filtered results
-                        const resultsData = {
-                            results: filteredResults,
-                            metadata: {
-                                query_executed: sqlContent.substring(0, 100) + '...',
-                                execution_time_ms: 0, // We don't track execution time in auto-scheduler
-                                total_results: filteredResults.length,
-                                auto_scheduler: true,
-                                execution_timestamp: new Date().toISOString()
-                            }
-                        };
-
-                        this.outputChannel.appendLine(`Attempting to store ${filteredResults.length} query results to PostgreSQL...`);
-                        
-                        // Use the same storeSimplePrompts method that parses and stores individual records
-                        const stored = await this.postgresManager.storeSimplePrompts(resultsData);
-                        
-                        if (stored > 0) {
-                            this.outputChannel.appendLine(`Successfully stored ${stored} prompts in PostgreSQL`);
-                        } else {
-                            this.outputChannel.appendLine(`No timestamp-prompt pairs found in results to store`);
-                        }
-                    }
-                    
-                } catch (postgresError) {
-                    this.outputChannel.appendLine(`Error storing to PostgreSQL: ${postgresError}`);
-                }
-                
-            } else {
-                this.outputChannel.appendLine(`Query executed but no results returned`);
-            }
-
-            this.lastExecution = new Date();
-            this.executionCount++;
-            this.updateStatusBar();
-
-            if (this.isRunning) {
-                const nextExecution = new Date(Date.now() + (this.intervalMinutes * 60 * 1000));
-                this.outputChannel.appendLine(`Next execution: ${nextExecution.toLocaleString()}`);
-            }
-
-        } catch (error: any) {
-            const errorMessage = error.message || error;
-            this.outputChannel.appendLine(`Error executing scheduled task: ${errorMessage}`);
-            this.errorCount++;
-            this.updateStatusBar();
+    async reloadSources(): Promise<void> {
+        if (!this.isRunning) {
+            return;
         }
+        if (this.syncMode === 'watch') {
+            await this.startWatcher();
+        }
+        await this.executeScheduledTask();
     }
 
     /**
-     * Get the current status
+     * Add a database that discovery cannot find, e.g. a Cursor install in a VM or devcontainer mounted on this machine
      */
-    getStatus(): {
-        isRunning: boolean;
-        intervalMinutes: number;
-        lastExecution: Date | null;
-        executionCount: number;
-        errorCount: number;
-    } {
-        return {
-            isRunning: this.isRunning,
-            intervalMinutes: this.intervalMinutes,
-            lastExecution: this.lastExecution,
-            executionCount: this.executionCount,
-            errorCount: this.errorCount
-        };
+    async addSource(): Promise<void> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Add source database',
+            filters: { 'Cursor database': ['vscdb'] }
+        });
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const databasePath = files[0].fsPath;
+        const sources = await getDatabaseSourcesSecret();
+        if (sources.some(source => getSourceId(source) === getSourceId(databasePath))) {
+            vscode.window.showInformationMessage(`${databasePath} is already a source`);
+            return;
+        }
+
+        await setDatabaseSourcesSecret([...sources, databasePath]);
+        this.outputChannel.appendLine(`➕ Added source ${getSourceId(databasePath)}: ${databasePath}`);
+        vscode.window.showInformationMessage(`Added source database ${databasePath}`);
+        await this.reloadSources();
     }
 
     /**
-     * Show detailed status information
+     * Stop syncing a source database. Prompts already synced from it stay in PostgreSQL.
      */
-    async showStatus(): Promise<void> {
-        const status = this.getStatus();
-        
-        const localDbPath = await getDatabasePathSecret() || 'Not configured';
-        const userId = await getUserIdSecret() || 'Not configured';
-        const { host: postgresHost, port: postgresPort, database: postgresDatabase, tableName: postgresTable } = POSTGRES_DEFAULTS;
-        
-        const postgresStatus = this.postgresManager.isInitialized() ? '✅ Connected' : '⚠️ Not connected';
-        
-        // Get auto-startup status
-        let autoStartupInfo: string[] = [];
-        if (this.autoStartupManager) {
-            const autoStatus = this.autoStartupManager.getStatus();
-            autoStartupInfo = [
-                '',
-                '🚀 **AUTO-STARTUP**',
-                `🔄 Enabled: ${autoStatus.autoStartupEnabled ? 'Yes' : 'No'}`,
-                `🆕 Always Start on Open: ${autoStatus.alwaysStartOnOpen ? 'Yes' : 'No'}`,
-                `🔄 Behavior: Start automatically when VS Code/Cursor opens`,
-                `⏰ No Timeout: Scheduler can be stopped indefinitely`,
-                `🚀 Recovery: Only on VS Code/Cursor restart`,
-            ];
+    async removeSource(): Promise<void> {
+        const sources = await getDatabaseSourcesSecret();
+        if (sources.length === 0) {
+            vscode.window.showInformationMessage('No source databases configured');
+            return;
         }
 
-        const statusText = [
-            '📊 Prompt Sync Status',
-            '',
-            '⚡ **SCHEDULER**',
-            `🟢 Running: ${status.isRunning ? 'Yes' : 'No'}`,
-            `📂 SQL Query: Embedded (Built-in)`,
-            `⏰ Interval: ${status.intervalMinutes} minutes`,
-            `📈 Executions: ${status.executionCount}`,
-            `❌ Errors: ${status.errorCount}`,
-            `🕒 Last Execution: ${status.lastExecution ? status.lastExecution.toLocaleString() : 'Never'}`,
-            ...autoStartupInfo,
-            '',
-            '🗄️ **DATABASES**',
-            `📂 Local Source: ${localDbPath === 'Not configured' ? '❌ Not configured' : '✅ Configured'}`,
-            `🐘 PostgreSQL Status: ${postgresStatus}`,
-            `🏠 Host: ${postgresHost}:${postgresPort}`,
-            `📋 Database: ${postgresDatabase}`,
-            `📋 Table: ${postgresTable}`,
-            `👤 User ID: ${userId}`,
-        ];
+        const pick = await vscode.window.showQuickPick(
+            sources.map(databasePath => ({ label: databasePath, description: getSourceId(databasePath), databasePath })),
+            { placeHolder: 'Select the source database to stop syncing' }
+        );
+        if (!pick) {
+            return;
+        }
 
-        if (status.isRunning) {
-            const nextExecution = new Date(Date.now() + (status.intervalMinutes * 60 * 1000));
-            statusText.push('', `⏰ **NEXT EXECUTION**`, `${nextExecution.toLocaleString()}`);
+        if (sources.length === 1) {
+            const confirm = await vscode.window.showWarningMessage(
+                'This is the only source database. Nothing will be synced until another one is chosen.',
+                'Remove'
+            );
+            if (confirm !== 'Remove') {
+                return;
+            }
         }
 
-        const message = statusText.join('\n');
-        
-        // Show in both information message and output channel
-        vscode.window.showInformationMessage('Auto-Scheduler status displayed in output channel', 'Show Details')
-            .then(selection => {
-                if (selection === 'Show Details') {
-                    this.outputChannel.show();
-                }
-            });
-        
-        this.outputChannel.appendLine('\n' + message);
-        this.outputChannel.show();
+        await setDatabaseSourcesSecret(sources.filter(source => source !== pick.databasePath));
+        this.outputChannel.appendLine(`➖ Removed source ${pick.description}: ${pick.databasePath}`);
+        vscode.window.showInformationMessage(`Stopped syncing ${pick.databasePath}`);
+        await this.reloadSources();
     }
 
     /**
-     * Update the status bar
+     * Pause syncing for a number of hours, or resume a pause early. The pause survives restarts.
      */
-    private updateStatusBar(): void {
-        if (this.isRunning) {
-            const retryIndicator = this.supabaseRetryCount > 0 ? ` (retry ${this.supabaseRetryCount}/${this.maxRetries})` : '';
-            this.statusBarItem.text = `$(clock) Auto-Schedule (${this.intervalMinutes}m) [${this.executionCount}/${this.errorCount}]${retryIndicator}`;
-            this.statusBarItem.backgroundColor = this.supabaseRetryCount > 0 ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
-            this.statusBarItem.tooltip = `Auto-scheduler running every ${this.intervalMinutes} minutes\nExecutions: ${this.executionCount}, Errors: ${this.errorCount}\nPostgreSQL retries: ${this.supabaseRetryCount}/${this.maxRetries}\nClick to stop`;
-        } else {
-            this.statusBarItem.text = `$(clock) Auto-Schedule (Off)`;
-            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
-            
-            let tooltipText = `Auto-scheduler stopped\nClick to restart immediately`;
-            if (this.autoStartupManager) {
-                const status = this.autoStartupManager.getStatus();
-                tooltipText += `\n🆕 Will auto-start on next VS Code/Cursor launch`;
-                if (status.autoStartupEnabled) {
-                    tooltipText += `\n✅ Auto-startup: ALWAYS ON`;
+    async pauseSync(): Promise<void> {
+        const paused = this.isPaused();
+        const options = [
+            ...(paused ? [{ label: '$(debug-start) Resume now', description: `Paused until ${this.pausedUntil!.toLocaleString()}`, hours: 0 }] : []),
+            ...[1, 2, 4, 8, 24].map(hours => ({ label: `${hours} ${hours === 1 ? 'hour' : 'hours'}`, description: '', hours })),
+            { label: 'Custom...', description: 'Enter the number of hours', hours: -1 }
+        ];
+
+        const pick = await vscode.window.showQuickPick(options, {
+            placeHolder: paused ? 'Sync is paused - resume now or pause for a different time' : 'Pause prompt sync for'
+        });
+        if (!pick) {
+            return;
+        }
+
+        if (pick.hours === 0) {
+            this.resumeSync('resumed by user');
+            vscode.window.showInformationMessage('Prompt sync resumed');
+            return;
+        }
+
+        let hours = pick.hours;
+        if (hours === -1) {
+            const input = await vscode.window.showInputBox({
+                prompt: 'Pause prompt sync for how many hours?',
+                value: '12',
+                validateInput: (value) => {
+                    const num = Number(value);
+                    if (!value || isNaN(num) || num <= 0) {
+                        return 'Please enter a positive number of hours';
+                    }
+                    if (num > 720) {
+                        return 'Maximum pause is 720 hours (30 days) - stop the scheduler to turn sync off for longer';
+                    }
+                    return null;
                 }
+            });
+            if (!input) {
+                return;
             }
-            this.statusBarItem.tooltip = tooltipText;
+            hours = Number(input);
         }
+
+        this.pausedUntil = new Date(Date.now() + hours * 60 * 60 * 1000);
+        await this.context.globalState.update('autoScheduler.pausedUntil', this.pausedUntil.toISOString());
+        this.armPauseTimer();
+        this.updateStatusBar();
+
+        this.outputChannel.appendLine(`⏸️ Sync paused until ${this.pausedUntil.toLocaleString()} - nothing is read or uploaded until then`);
+        vscode.window.showInformationMessage(`Prompt sync paused until ${this.pausedUntil.toLocaleString()}`);
     }
 
     /**
-     * Save state to workspace storage
+     * True while a pause is in effect; the pause timer clears it once it has run out
      */
-    private saveState(): void {
-        this.context.globalState.update('autoScheduler.intervalMinutes', this.intervalMinutes);
-        
-        this.context.workspaceState.update('autoScheduler.isRunning', this.isRunning);
-        this.context.workspaceState.update('autoScheduler.executionCount', this.executionCount);
-        this.context.workspaceState.update('autoScheduler.errorCount', this.errorCount);
-        this.context.workspaceState.update('autoScheduler.lastExecution', this.lastExecution?.toISOString());
+    private isPaused(): boolean {
+        return this.pausedUntil !== null && this.pausedUntil.getTime() > Date.now();
+    }
+
+    private resumeSync(reason: string): void {
+        if (this.pauseTimerId) {
+            clearInterval(this.pauseTimerId);
+            this.pauseTimerId = null;
+        }
+        if (!this.pausedUntil) {
+            return;
+        }
+
+        this.pausedUntil = null;
+        this.context.globalState.update('autoScheduler.pausedUntil', undefined);
+        this.outputChannel.appendLine(`▶️ Sync ${reason}`);
+        this.updateStatusBar();
+
+        // Catch up on what was written during the pause
+        if (this.isRunning) {
+            this.executeScheduledTask();
+        }
     }
 
     /**
-     * Restore state from workspace storage
+     * Pick up a pause, a resume or forgotten prompts from other windows. globalState is shared between windows,
+     * the copies held here are not.
+     */
+    private reloadSharedState(): void {
+        this.tombstones = new Set(this.context.globalState.get<string[]>('autoScheduler.tombstones', []));
+
+        const stored = this.context.globalState.get<string>('autoScheduler.pausedUntil');
+        const pausedUntil = stored && Date.parse(stored) > Date.now() ? new Date(stored) : null;
+        if (pausedUntil?.getTime() === this.pausedUntil?.getTime()) {
+            return;
+        }
+
+        this.pausedUntil = pausedUntil;
+        if (pausedUntil) {
+            this.outputChannel.appendLine(`⏸️ Sync was paused in another window until ${pausedUntil.toLocaleString()}`);
+            this.armPauseTimer();
+        } else if (this.pauseTimerId) {
+            clearInterval(this.pauseTimerId);
+            this.pauseTimerId = null;
+        }
+        this.updateStatusBar();
+    }
+
+    /**
+     * Refresh the status bar countdown every minute and resume when the pause runs out
+     */
+    private armPauseTimer(): void {
+        if (this.pauseTimerId) {
+            clearInterval(this.pauseTimerId);
+        }
+        this.pauseTimerId = setInterval(() => {
+            if (this.isPaused()) {
+                this.updateStatusBar();
+            } else {
+                this.resumeSync('pause ended');
+            }
+        }, 60 * 1000);
+    }
+
+    /**
+     * Pick recently synced prompts, delete them from PostgreSQL and never sync them again
+     */
+    async reviewRecentPrompts(): Promise<void> {
+        if (!await this.connectPostgres()) {
+            vscode.window.showErrorMessage('PostgreSQL is not connected. Run "Setup PostgreSQL Connection" first.');
+            return;
+        }
+
+        let rows: any[];
+        try {
+            rows = await this.postgresManager.getRecentPrompts(RECENT_PROMPTS_LIMIT);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to load synced prompts: ${error.message || error}`);
+            return;
+        }
+
+        if (rows.length === 0) {
+            vscode.window.showInformationMessage('No synced prompts found for your user ID');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            rows.map(row => ({
+                label: typeof row.prompt === 'string' && !row.prompt.startsWith('hmac-sha256:')
+                    ? row.prompt.replace(/\s+/g, ' ').substring(0, 80)
+                    : `[${row.privacy_level || 'unknown'} - ${row.prompt_length ?? '?'} characters]`,
+                description: String(row.timestamp),
+                detail: `Session ${row.composer_id || '-'}${row.source_id ? ` · source ${row.source_id}` : ''}`,
+                row
+            })),
+            {
+                canPickMany: true,
+                matchOnDescription: true,
+                placeHolder: `Select synced prompts to delete (${rows.length} most recent)`
+            }
+        );
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete ${selected.length} prompts from PostgreSQL? They will not be synced again from this machine.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return;
+        }
+
+        // Tombstones first, so a sync running meanwhile cannot store them again
+        this.addTombstones(selected.map(({ row }) => row));
+
+        try {
+            const deleted = await this.postgresManager.deletePrompts(selected.map(({ row }) => String(row.id)));
+            this.outputChannel.appendLine(`🗑️ Forgot ${selected.length} prompts: ${deleted.length} deleted from PostgreSQL, ${this.tombstones.size} prompts on the local forget list`);
+            vscode.window.showInformationMessage(`Deleted ${deleted.length} prompts. They will not be synced again.`);
+        } catch (error: any) {
+            this.outputChannel.appendLine(`❌ Deleting prompts failed: ${error.message || error}`);
+            vscode.window.showErrorMessage(`Deleting prompts failed: ${error.message || error}. They are on the forget list and will not sync again; run the command again to delete them.`);
+        }
+    }
+
+    /**
+     * Remember prompts the user deleted, by composer and bubble ID, so they are dropped from every later sync
+     */
+    private addTombstones(rows: any[]): void {
+        // Start from the stored list, so prompts forgotten in another window are kept
+        this.tombstones = new Set(this.context.globalState.get<string[]>('autoScheduler.tombstones', []));
+        rows.filter(row => row.composer_id && row.bubble_id)
+            .forEach(row => this.tombstones.add(`${row.composer_id}:${row.bubble_id}`));
+        this.context.globalState.update('autoScheduler.tombstones', Array.from(this.tombstones));
+    }
+
+    /**
+     * Export every row stored in PostgreSQL for the current user ID to a JSON archive
+     */
+    async exportMyData(): Promise<void> {
+        if (!await this.connectPostgres()) {
+            vscode.window.showErrorMessage('PostgreSQL is not connected. Run "Setup PostgreSQL Connection" first.');
+            return;
+        }
+
+        const target = await this.chooseExportFile();
+        if (!target) {
+            return;
+        }
+
+        try {
+            const counts = await this.writePersonalDataExport(target.fsPath);
+            const selection = await vscode.window.showInformationMessage(
+                `Exported your synced data (${this.formatCounts(counts).join(', ')}) to ${target.fsPath}`,
+                'Open File'
+            );
+            if (selection === 'Open File') {
+                vscode.window.showTextDocument(target);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Export failed: ${error.message || error}`);
+        }
+    }
+
+    /**
+     * Delete every row stored in PostgreSQL for the current user ID, after confirmation and an optional export.
+     * Sync is stopped and auto-startup turned off first, since the next run would upload the Cursor history again.
+     */
+    async eraseMyData(): Promise<void> {
+        if (!await this.connectPostgres()) {
+            vscode.window.showErrorMessage('PostgreSQL is not connected. Run "Setup PostgreSQL Connection" first.');
+            return;
+        }
+
+        const userId = await getUserIdSecret();
+        if (!userId) {
+            vscode.window.showErrorMessage('No user ID configured. Run "Configure User ID" first.');
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Erase all prompts, sessions, sync positions and enrollment tokens stored for "${userId}"?`,
+            {
+                modal: true,
+                detail: 'This cannot be undone. Sync is stopped and stays off on launch, so nothing is uploaded again unless you start it. A login issued for an enrollment token is disabled as well.'
+            },
+            'Export First, Then Erase',
+            'Erase Without Export'
+        );
+        if (!choice) {
+            return;
+        }
+
+        let exportPath: string | null = null;
+        if (choice === 'Export First, Then Erase') {
+            const target = await this.chooseExportFile();
+            if (!target) {
+                return;
+            }
+            try {
+                await this.writePersonalDataExport(target.fsPath);
+                exportPath = target.fsPath;
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Export failed, nothing was erased: ${error.message || error}`);
+                return;
+            }
+        }
+
+        const typed = await vscode.window.showInputBox({
+            prompt: `Type your user ID (${userId}) to confirm the erasure`,
+            validateInput: (value) => value === userId ? null : 'Type the user ID exactly to confirm'
+        });
+        if (typed !== userId) {
+            return;
+        }
+
+        // Stop syncing first, and let a run in progress finish, so nothing is uploaded after the erasure.
+        // Other windows see the erasure time before their next run and stop as well.
+        await this.stop(true);
+        this.autoStartupManager?.disableAutoStartup();
+        await this.context.globalState.update('autoScheduler.erasedAt', new Date().toISOString());
+        while (this.isExecuting) {
+            await new Promise(resolve => setTimeout(resolve, 200));
+        }
+
+        try {
+            const erasure = await this.postgresManager.erasePersonalData();
+            const droppedPrompts = this.outbox.clear();
+            this.updateStatusBar();
+
+            const summary = [
+                '',
+                '🧹 **PERSONAL DATA ERASED**',
+                `👤 User ID: ${userId}`,
+                `🧾 Audit ID: ${erasure.auditId} (data_erasure_audit)`,
+                `🕒 Erased At: ${new Date(erasure.erasedAt).toLocaleString()}`,
+                ...Object.entries(erasure.deleted).map(([table, count]) => `🗑️ ${table}: ${count} rows deleted`),
+                `📤 Offline outbox: ${droppedPrompts} queued prompts dropped`,
+                ...(exportPath ? [`💾 Export: ${exportPath}`] : []),
+                '⏹️ Sync stopped and auto-startup turned off - starting the scheduler again uploads your Cursor history again'
+            ];
+            summary.forEach(line => this.outputChannel.appendLine(line));
+            this.outputChannel.show();
+
+            const total = Object.values(erasure.deleted).reduce((sum, count) => sum + count, 0);
+            vscode.window.showInformationMessage(`Erased ${total} rows of your synced data (audit ${erasure.auditId}). See the output for a summary.`);
+        } catch (error: any) {
+            this.outputChannel.appendLine(`❌ Erasure failed, nothing was deleted: ${error.message || error}`);
+            vscode.window.showErrorMessage(`Erasure failed, nothing was deleted: ${error.message || error}. Sync stays stopped.`);
+        }
+    }
+
+    /**
+     * Stop this window's scheduler and drop its outbox if the user's data was erased, in any window, after it started.
+     * Its queued batches and positions would otherwise upload the erased prompts again.
+     */
+    private async stopIfErased(): Promise<boolean> {
+        const erasedAt = this.context.globalState.get<string>('autoScheduler.erasedAt');
+        if (!erasedAt || this.startedAt === null || Date.parse(erasedAt) < this.startedAt) {
+            return false;
+        }
+
+        await this.stop(true);
+        const droppedPrompts = this.outbox.clear();
+        this.outputChannel.appendLine(`⏹️ Your synced data was erased at ${new Date(erasedAt).toLocaleString()} - sync stopped and ${droppedPrompts} queued prompts dropped. Start the scheduler to sync again.`);
+        this.updateStatusBar();
+        return true;
+    }
+
+    private async chooseExportFile(): Promise<vscode.Uri | undefined> {
+        const date = new Date().toISOString().slice(0, 10);
+        return vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(os.homedir(), `cursor-prompt-sync-export-${date}.json`)),
+            filters: { 'JSON': ['json'] },
+            saveLabel: 'Export'
+        });
+    }
+
+    /**
+     * Write the personal data archive and return the row counts per table
+     */
+    private async writePersonalDataExport(filePath: string): Promise<Record<string, number>> {
+        const data = await this.postgresManager.getPersonalData();
+        await this.exportManager.savePersonalDataExport(filePath, data);
+
+        const counts: Record<string, number> = {};
+        Object.entries(data.tables).forEach(([table, rows]) => counts[table] = rows.length);
+        this.outputChannel.appendLine(`💾 Exported personal data for ${data.userId} to ${filePath}: ${this.formatCounts(counts).join(', ')}`);
+        return counts;
+    }
+
+    /**
+     * Execute the scheduled task
+     */
+    private async executeScheduledTask(): Promise<void> {
+        this.reloadSharedState();
+        if (await this.stopIfErased()) {
+            return;
+        }
+        if (this.isPaused()) {
+            this.outputChannel.appendLine(`⏸️ Sync paused until ${this.pausedUntil!.toLocaleString()} - skipping run`);
+            return;
+        }
+        if (this.isExecuting) {
+            // Changes that arrive mid-run are picked up by one follow-up run
+            this.runRequested = true;
+            return;
+        }
+        this.isExecuting = true;
+        // All reads of a source during this run see the same state.vscdb
+        this.databaseManager.beginSnapshot();
+
+        try {
+            this.outputChannel.appendLine(`\nExecuting scheduled task at ${new Date().toLocaleString()}`);
+
+            // Show which user we're processing for
+            const userId = await getUserIdSecret();
+            this.outputChannel.appendLine(`Processing for user: ${userId || 'Not configured'}`);
+
+            const sources = await getDatabaseSourcesSecret();
+            if (sources.length === 0) {
+                throw new Error('Database path not configured. Please set the Cursor database path first.');
+            }
+            this.outbox.setMaxBytes(this.getOutboxMaxBytes());
+
+            const statuses = this.syncSourceStatuses(sources);
+            if (statuses.every(status => !status.breaker.canAttempt())) {
+                statuses.forEach(status => this.outputChannel.appendLine(`Skipping run - ${status.breaker.describe()}`));
+                this.updateStatusBar();
+                return;
+            }
+
+            if (!await this.connectPostgres()) {
+                this.outputChannel.appendLine(`PostgreSQL not connected - queueing prompts in the offline outbox`);
+                for (const databasePath of sources) {
+                    await this.queueOffline(databasePath);
+                }
+                this.lastExecution = new Date();
+                this.executionCount++;
+                this.updateStatusBar();
+                this.saveState();
+                return;
+            }
+
+            // Queued batches go first so prompts reach the server in extraction order
+            if (!await this.drainOutbox()) {
+                for (const databasePath of sources) {
+                    await this.queueOffline(databasePath);
+                }
+                this.updateStatusBar();
+                return;
+            }
+
+            // Each source keeps its own watermark; once PostgreSQL fails, the remaining sources are queued
+            let postgresAvailable = true;
+            for (const databasePath of sources) {
+                if (postgresAvailable) {
+                    postgresAvailable = await this.syncSource(databasePath);
+                } else {
+                    await this.queueOffline(databasePath);
+                }
+            }
+
+            this.lastExecution = new Date();
+            this.executionCount++;
+            this.updateStatusBar();
+
+            if (this.isRunning) {
+                const nextExecution = new Date(Date.now() + (this.intervalMinutes * 60 * 1000));
+                this.outputChannel.appendLine(`Next execution: ${nextExecution.toLocaleString()}`);
+            }
+
+        } catch (error: any) {
+            const errorMessage = error.message || error;
+            this.outputChannel.appendLine(`Error executing scheduled task: ${errorMessage}`);
+            this.errorCount++;
+            this.updateStatusBar();
+        } finally {
+            this.databaseManager.endSnapshot();
+            this.isExecuting = false;
+            if (this.runRequested && this.isRunning) {
+                this.runRequested = false;
+                setTimeout(() => this.executeScheduledTask(), 0);
+            }
+        }
+    }
+
+    /**
+     * Status entry for a source database, created on first use
+     */
+    private getSourceStatus(databasePath: string): SourceStatus {
+        const sourceId = getSourceId(databasePath);
+        let status = this.sourceStatuses.get(sourceId);
+        if (!status) {
+            status = {
+                sourceId,
+                databasePath,
+                breaker: new CircuitBreaker(`Source ${sourceId}`),
+                lastSyncAt: null,
+                promptsStored: 0,
+                promptsExcluded: 0,
+                lastError: null
+            };
+            this.sourceStatuses.set(sourceId, status);
+        }
+        return status;
+    }
+
+    /**
+     * Status entries for the configured sources, dropping those of sources that were removed
+     */
+    private syncSourceStatuses(sources: string[]): SourceStatus[] {
+        const statuses = sources.map(databasePath => this.getSourceStatus(databasePath));
+        for (const sourceId of Array.from(this.sourceStatuses.keys())) {
+            if (!statuses.some(status => status.sourceId === sourceId)) {
+                this.sourceStatuses.delete(sourceId);
+            }
+        }
+        return statuses;
+    }
+
+    /**
+     * Extract and store new prompts from one source database, resuming from its own watermark.
+     * Returns false if PostgreSQL failed; the prompts are queued in the outbox instead.
+     */
+    private async syncSource(databasePath: string): Promise<boolean> {
+        const sourceId = getSourceId(databasePath);
+        this.outputChannel.appendLine(`Source ${sourceId}: ${databasePath}`);
+
+        // Resume from the persisted watermark - never guess a position if it cannot be read
+        let watermark: SyncWatermark | null;
+        try {
+            watermark = await this.postgresManager.getWatermark(sourceId);
+            this.postgresBreaker.recordSuccess();
+        } catch (watermarkError: any) {
+            this.outputChannel.appendLine(`Error fetching sync watermark from PostgreSQL: ${watermarkError.message || watermarkError}`);
+            this.handleFailure(this.postgresBreaker, watermarkError);
+            await this.queueOffline(databasePath);
+            return false;
+        }
+
+        if (watermark) {
+            this.outbox.recordPosition(sourceId, watermark);
+            this.outputChannel.appendLine(`Resuming after ${new Date(watermark.clientRpcSendTime).toISOString()} (composer ${watermark.composerId || '-'}, bubble ${watermark.bubbleId || '-'})`);
+        } else {
+            this.outputChannel.appendLine(`No watermark for source ${sourceId} - syncing full history`);
+        }
+
+        const sqlContent = this.getOptimizedQuery();
+        const results = await this.readLocalDatabase(databasePath, sqlContent, this.getWatermarkParams(watermark));
+        if (results === null) {
+            return true;
+        }
+
+        const status = this.getSourceStatus(databasePath);
+        if (results.length === 0) {
+            this.outputChannel.appendLine(`Query executed but no results returned`);
+            status.lastSyncAt = new Date();
+            return true;
+        }
+
+        this.outputChannel.appendLine(`Query executed successfully - ${results.length} new records to process`);
+
+        // The watermark moves past excluded prompts too, so they are never extracted again
+        const nextWatermark = watermarkFromRows(results);
+        const filtered = await this.filterRows(databasePath, results);
+        if (filtered === null) {
+            return true;
+        }
+        const included = await this.prepareRows(filtered);
+
+        // Parse and store in PostgreSQL (simple prompts only)
+        try {
+            this.outputChannel.appendLine(`Processing results for PostgreSQL storage...`);
+
+            // Create results data in the format expected by storeSimplePrompts
+            const resultsData = {
+                results: included,
+                metadata: {
+                    query_executed: sqlContent.substring(0, 100) + '...',
+                    execution_time_ms: 0, // We don't track execution time in auto-scheduler
+                    total_results: included.length,
+                    auto_scheduler: true,
+                    execution_timestamp: new Date().toISOString()
+                }
+            };
+
+            this.outputChannel.appendLine(`Attempting to store ${included.length} query results to PostgreSQL...`);
+
+            // The watermark only moves once every prompt of this batch has been stored
+            const stored = await this.postgresManager.storeSimplePrompts(resultsData, { sourceId, position: nextWatermark });
+            this.postgresBreaker.recordSuccess();
+            status.lastSyncAt = new Date();
+            status.promptsStored += stored.inserted;
+
+            if (nextWatermark) {
+                this.outbox.recordPosition(sourceId, nextWatermark);
+            }
+
+            if (stored.inserted > 0 || stored.duplicates > 0) {
+                this.outputChannel.appendLine(`Successfully stored ${stored.inserted} prompts in PostgreSQL (${stored.duplicates} duplicates skipped)`);
+            } else {
+                this.outputChannel.appendLine(`No timestamp-prompt pairs found in results to store`);
+            }
+            return true;
+        } catch (postgresError) {
+            this.outputChannel.appendLine(`Error storing to PostgreSQL: ${postgresError}`);
+            this.handleFailure(this.postgresBreaker, postgresError);
+            this.enqueueBatch(sourceId, included, nextWatermark);
+            return false;
+        }
+    }
+
+    /**
+     * Run an extraction query against a source database through its circuit breaker.
+     * Returns null if the read failed; the failure is recorded and a retry scheduled.
+     */
+    private async readLocalDatabase(databasePath: string, sql: string, params?: QueryParams): Promise<any[] | null> {
+        const status = this.getSourceStatus(databasePath);
+        if (!status.breaker.beginAttempt()) {
+            this.outputChannel.appendLine(`Skipping source - ${status.breaker.describe()}`);
+            return null;
+        }
+
+        try {
+            const results = await this.databaseManager.executeQueryAt(databasePath, sql, params);
+            status.breaker.recordSuccess();
+            status.lastError = null;
+            this.lastLocalErrorType = null;
+            return results || [];
+        } catch (error: any) {
+            this.outputChannel.appendLine(`Error reading the Cursor database: ${error.message || error}`);
+            status.lastError = error.message || String(error);
+            this.handleFailure(status.breaker, error);
+            this.errorCount++;
+            this.recordLocalError(error);
+            return null;
+        }
+    }
+
+    /**
+     * Count a local read failure by type and tell the user once when a new kind of failure starts
+     */
+    private recordLocalError(error: any): void {
+        const type: string = error?.name && error.name !== 'Error' ? error.name : 'UnknownError';
+        this.localErrorCounts[type] = (this.localErrorCounts[type] || 0) + 1;
+        this.context.workspaceState.update('autoScheduler.localErrorCounts', this.localErrorCounts);
+
+        if (type === this.lastLocalErrorType) {
+            return;
+        }
+        this.lastLocalErrorType = type;
+        vscode.window.showWarningMessage(
+            `Prompt sync cannot read the Cursor database (${type}): ${error?.message || error}`,
+            'Show Output'
+        ).then(selection => {
+            if (selection === 'Show Output') {
+                this.outputChannel.show();
+            }
+        });
+    }
+
+    /**
+     * Record a failure on a circuit breaker and schedule an early retry for retryable errors
+     */
+    private handleFailure(breaker: CircuitBreaker, error: any): void {
+        const { classification, retryInMs } = breaker.recordFailure(error);
+        this.outputChannel.appendLine(`❌ ${breaker.name} failure is ${classification.kind}: ${classification.reason}`);
+
+        if (retryInMs === null) {
+            this.outputChannel.appendLine(`⛔ ${breaker.name} circuit open - fix the configuration, then restart the scheduler`);
+        } else {
+            this.outputChannel.appendLine(`🔁 ${breaker.name} circuit ${breaker.getState()} - next attempt in ${Math.ceil(retryInMs / 1000)}s`);
+            this.scheduleRetry(retryInMs);
+        }
+        this.updateStatusBar();
+    }
+
+    /**
+     * Run again after a backoff delay, unless the regular interval comes first
+     */
+    private scheduleRetry(delayMs: number): void {
+        if (!this.isRunning || delayMs >= this.intervalMinutes * 60 * 1000) {
+            return;
+        }
+
+        if (this.retryTimeoutId) {
+            clearTimeout(this.retryTimeoutId);
+        }
+        this.retryTimeoutId = setTimeout(() => {
+            this.retryTimeoutId = null;
+            this.executeScheduledTask();
+        }, delayMs);
+    }
+
+    private clearRetry(): void {
+        if (this.retryTimeoutId) {
+            clearTimeout(this.retryTimeoutId);
+            this.retryTimeoutId = null;
+        }
+    }
+
+    /**
+     * True if PostgreSQL can be used for this run; an open circuit sends the run to the offline outbox
+     */
+    private async connectPostgres(): Promise<boolean> {
+        const trial = this.postgresBreaker.getState() === 'half-open';
+        if (!this.postgresBreaker.beginAttempt()) {
+            this.outputChannel.appendLine(this.postgresBreaker.describe());
+            return false;
+        }
+
+        if (!this.postgresManager.isInitialized()) {
+            await this.reconnectPostgres();
+        }
+        if (!this.postgresManager.isInitialized()) {
+            // A failed trial must report back, or the circuit would wait for it until the trial times out
+            if (trial) {
+                this.handleFailure(this.postgresBreaker, new Error('PostgreSQL reconnection failed'));
+            }
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Watch the Cursor database so new prompts sync within seconds; the interval keeps running as a fallback
+     */
+    private async startWatcher(): Promise<void> {
+        this.stopWatcher();
+
+        const sources = (await getDatabaseSourcesSecret()).filter(databasePath => fs.existsSync(databasePath));
+        if (sources.length === 0) {
+            this.outputChannel.appendLine(`⚠️ Cannot watch the Cursor database (path not configured or missing) - polling every ${this.intervalMinutes} minutes`);
+            return;
+        }
+
+        for (const databasePath of sources) {
+            const watcher = new DatabaseWatcher(
+                databasePath,
+                () => {
+                    this.outputChannel.appendLine(`👁️ Cursor database changed (${databasePath}) - syncing`);
+                    this.executeScheduledTask();
+                },
+                { debounceMs: WATCH_DEBOUNCE_MS, maxWaitMs: WATCH_MAX_WAIT_MS },
+                (error) => {
+                    this.outputChannel.appendLine(`⚠️ File watcher for ${databasePath} stopped (${error.message}) - falling back to polling every ${this.intervalMinutes} minutes`);
+                    this.updateStatusBar();
+                }
+            );
+
+            if (watcher.start()) {
+                this.outputChannel.appendLine(`👁️ Watching ${databasePath} and its WAL file for changes`);
+            }
+            this.databaseWatchers.push(watcher);
+        }
+        this.updateStatusBar();
+    }
+
+    private stopWatcher(): void {
+        this.databaseWatchers.forEach(watcher => watcher.stop());
+        this.databaseWatchers = [];
+    }
+
+    /**
+     * True when every source database is being watched
+     */
+    private isWatching(): boolean {
+        return this.databaseWatchers.length > 0 && this.databaseWatchers.every(watcher => watcher.isActive());
+    }
+
+    /**
+     * Extract new prompts from the local position and queue them until PostgreSQL is reachable again
+     */
+    private async queueOffline(databasePath: string): Promise<void> {
+        const sourceId = getSourceId(databasePath);
+        const position = this.outbox.getPosition(sourceId);
+        const results = await this.readLocalDatabase(databasePath, this.getOptimizedQuery(), this.getWatermarkParams(position));
+        if (results === null) {
+            return;
+        }
+
+        if (results.length === 0) {
+            this.outputChannel.appendLine(`No new prompts to queue`);
+            return;
+        }
+
+        const filtered = await this.filterRows(databasePath, results);
+        if (filtered === null) {
+            return;
+        }
+        const included = await this.prepareRows(filtered);
+        this.enqueueBatch(sourceId, included, watermarkFromRows(results));
+    }
+
+    /**
+     * Drop prompts from projects excluded by the cursorSqlRunner.projectFilter rules.
+     * Returns null if the project context could not be read; nothing is synced then, so no excluded prompt slips through.
+     */
+    private async filterRows(databasePath: string, rows: any[]): Promise<any[] | null> {
+        const filter = ProjectFilter.fromConfiguration(message => this.outputChannel.appendLine(`⚠️ ${message}`));
+        if (!filter.hasRules()) {
+            return rows;
+        }
+
+        const excluded = await this.findExcludedPrompts(databasePath, rows, filter, sql => this.readLocalDatabase(databasePath, sql));
+        if (excluded === null) {
+            this.outputChannel.appendLine(`⚠️ Project context unavailable - holding back ${rows.length} prompts until it can be read`);
+            return null;
+        }
+
+        if (excluded.length > 0) {
+            this.getSourceStatus(databasePath).promptsExcluded += excluded.length;
+            const byRule: Record<string, number> = {};
+            excluded.forEach(({ decision }) => {
+                const key = decision.rule || decision.reason;
+                byRule[key] = (byRule[key] || 0) + 1;
+            });
+            this.outputChannel.appendLine(`🚫 Excluded ${excluded.length} of ${rows.length} prompts by project rules: ${this.formatCounts(byRule).join(', ')}`);
+        }
+
+        const excludedRows = new Set(excluded.map(({ row }) => row));
+        return rows.filter(row => !excludedRows.has(row));
+    }
+
+    /**
+     * Prompts among the rows that the filter excludes, judged by the project context of their composer.
+     * Composers without any file or remote reference fall back to the workspace they were opened in.
+     * Returns null if the context query failed.
+     */
+    private async findExcludedPrompts(
+        databasePath: string,
+        rows: any[],
+        filter: ProjectFilter,
+        query: (sql: string) => Promise<any[] | null>
+    ): Promise<ExcludedPrompt[] | null> {
+        const composerIds = Array.from(new Set(rows.map(row => row.composer_id).filter(Boolean))) as string[];
+        const rawContext = new Map<string, string[]>();
+
+        // Chunked so the VALUES list stays small for full-history reads
+        for (let offset = 0; offset < composerIds.length; offset += 200) {
+            const contextRows = await query(this.getProjectContextQuery(composerIds.slice(offset, offset + 200)));
+            if (contextRows === null) {
+                return null;
+            }
+            for (const contextRow of contextRows) {
+                if (typeof contextRow.context !== 'string') {
+                    continue;
+                }
+                const values = rawContext.get(contextRow.composer_id) || [];
+                values.push(contextRow.context);
+                rawContext.set(contextRow.composer_id, values);
+            }
+        }
+
+        const contexts = new Map<string, ProjectContext>();
+        rawContext.forEach((values, composerId) => contexts.set(composerId, extractProjectContext(values)));
+
+        const unknown = composerIds.filter(composerId => {
+            const context = contexts.get(composerId);
+            return !context || (context.paths.length === 0 && context.remotes.length === 0);
+        });
+        resolveWorkspaceFolders(databasePath, unknown).forEach((folders, composerId) => {
+            contexts.set(composerId, { paths: folders, remotes: resolveGitRemotes(folders) });
+        });
+
+        const excluded: ExcludedPrompt[] = [];
+        for (const row of rows) {
+            const context = contexts.get(row.composer_id) || { paths: [], remotes: [] };
+            const decision = filter.decide(context);
+            if (!decision.included) {
+                excluded.push({ row, decision, context });
+            }
+        }
+        return excluded;
+    }
+
+    /**
+     * Dry run of the project rules: list the prompts they would exclude, without syncing or changing anything
+     */
+    async previewProjectExclusions(): Promise<void> {
+        const filter = ProjectFilter.fromConfiguration(message => this.outputChannel.appendLine(`⚠️ ${message}`));
+        if (!filter.hasRules()) {
+            const selection = await vscode.window.showInformationMessage(
+                'No project rules configured. Add workspace:, remote: or glob: rules to the project filter settings first.',
+                'Open Settings'
+            );
+            if (selection === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'cursorSqlRunner.projectFilter');
+            }
+            return;
+        }
+
+        const scope = await vscode.window.showQuickPick(
+            [
+                { label: 'Pending prompts', description: 'Prompts not synced yet', fullHistory: false },
+                { label: 'Entire history', description: 'Every prompt in the Cursor databases', fullHistory: true }
+            ],
+            { placeHolder: 'Which prompts should the dry run check?' }
+        );
+        if (!scope) {
+            return;
+        }
+
+        const sources = await getDatabaseSourcesSecret();
+        if (sources.length === 0) {
+            vscode.window.showErrorMessage('No Cursor databases configured. Run "Choose Cursor Databases to Sync" first.');
+            return;
+        }
+
+        this.outputChannel.appendLine(`\n🔍 Project filter dry run (${scope.label.toLowerCase()}, ${filter.describe()}) - nothing is synced`);
+        let checked = 0;
+        let excludedTotal = 0;
+
+        this.databaseManager.beginSnapshot();
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Checking prompts against project rules...'
+            }, async () => {
+                for (const databasePath of sources) {
+                    const sourceId = getSourceId(databasePath);
+                    try {
+                        const position = scope.fullHistory ? null : this.outbox.getPosition(sourceId);
+                        const rows = await this.databaseManager.executeQueryAt(databasePath, this.getOptimizedQuery(), this.getWatermarkParams(position));
+                        const excluded = await this.findExcludedPrompts(databasePath, rows, filter, sql => this.databaseManager.executeQueryAt(databasePath, sql)) || [];
+                        checked += rows.length;
+                        excludedTotal += excluded.length;
+
+                        this.outputChannel.appendLine(`📂 ${databasePath}: ${excluded.length} of ${rows.length} prompts would be excluded`);
+                        for (const { row, decision, context } of excluded) {
+                            const project = context.remotes[0] || context.paths[0] || 'unknown project';
+                            const preview = String(row.prompt || '').replace(/\s+/g, ' ').substring(0, 60);
+                            this.outputChannel.appendLine(`   🚫 ${row.timestamp} ${row.session_name || row.composer_id} - ${decision.rule || decision.reason} (${project}): ${preview}`);
+                        }
+                    } catch (error: any) {
+                        this.outputChannel.appendLine(`❌ ${databasePath}: ${error.message || error}`);
+                    }
+                }
+            });
+        } finally {
+            this.databaseManager.endSnapshot();
+        }
+
+        this.outputChannel.appendLine(`🔍 Dry run complete: ${excludedTotal} of ${checked} prompts would be excluded`);
+        this.outputChannel.show();
+        vscode.window.showInformationMessage(`Dry run: ${excludedTotal} of ${checked} prompts would be excluded by project rules. See the output for details.`);
+    }
+
+    /**
+     * Prepare extracted rows before they are stored or queued: prompts the user deleted are dropped,
+     * the rest are redacted and reduced to the configured privacy level
+     */
+    private async prepareRows(rows: any[]): Promise<any[]> {
+        const kept = rows.filter(row => !this.tombstones.has(`${row.composer_id}:${row.bubble_id}`));
+        if (kept.length < rows.length) {
+            this.outputChannel.appendLine(`🗑️ Skipped ${rows.length - kept.length} prompts you deleted earlier`);
+        }
+
+        this.redactRows(kept);
+
+        const level = getPrivacyLevel();
+        const salt = level === 'hashed' ? await getPrivacySaltSecret() : '';
+        kept.forEach(row => applyPrivacyLevel(row, level, salt));
+        return kept;
+    }
+
+    /**
+     * Redact secrets and personal data in the text fields of extracted rows, in place, before they are stored or queued.
+     * Each row records which rules fired in its redactions field.
+     */
+    private redactRows(rows: any[]): void {
+        if (!Redactor.isEnabled()) {
+            return;
+        }
+
+        const redactor = Redactor.fromConfiguration(message => this.outputChannel.appendLine(`⚠️ ${message}`));
+        const totals: Record<string, number> = {};
+        let redactedRows = 0;
+
+        for (const row of rows) {
+            const findings: Record<string, number> = { ...(row.redactions || {}) };
+            let changed = false;
+
+            for (const field of REDACTED_FIELDS) {
+                if (typeof row[field] !== 'string' || !row[field]) {
+                    continue;
+                }
+                const result = redactor.redact(row[field]);
+                for (const [rule, count] of Object.entries(result.findings)) {
+                    findings[rule] = (findings[rule] || 0) + count;
+                    totals[rule] = (totals[rule] || 0) + count;
+                    changed = true;
+                }
+                row[field] = result.text;
+            }
+
+            if (changed) {
+                row.redactions = findings;
+                redactedRows++;
+            }
+        }
+
+        if (redactedRows > 0) {
+            for (const [rule, count] of Object.entries(totals)) {
+                this.redactionCounts[rule] = (this.redactionCounts[rule] || 0) + count;
+            }
+            this.context.workspaceState.update('autoScheduler.redactionCounts', this.redactionCounts);
+            this.outputChannel.appendLine(`🛡️ Redacted ${redactedRows} of ${rows.length} prompts: ${this.formatCounts(totals).join(', ')}`);
+        }
+    }
+
+    /**
+     * Queue rows with the position they were extracted up to, which may lie past the last row when prompts were excluded
+     */
+    private enqueueBatch(sourceId: string, results: any[], position: SyncWatermark | null): void {
+        if (this.outbox.enqueue(sourceId, results, position)) {
+            const summary = this.outbox.getSummary();
+            this.outputChannel.appendLine(`📥 Queued ${results.length} prompts in the offline outbox (${summary.batches} batches, ${summary.prompts} prompts pending)`);
+        } else {
+            // Nothing is lost: the position did not move, so these prompts are extracted again later
+            this.outputChannel.appendLine(`⚠️ Offline outbox is full (${this.formatBytes(this.outbox.getSummary().maxBytes)}) - ${results.length} prompts stay in the Cursor database until it drains`);
+        }
+        this.updateStatusBar();
+    }
+
+    /**
+     * Store queued batches oldest first. Returns false if a batch could not be stored;
+     * it stays at the head of the queue for the next run.
+     */
+    private async drainOutbox(): Promise<boolean> {
+        let batch = this.outbox.peek();
+        if (!batch) {
+            return true;
+        }
+
+        this.outputChannel.appendLine(`📤 Draining offline outbox (${this.outbox.getSummary().batches} batches)...`);
+
+        while (batch) {
+            try {
+                // Batches queued by older versions, or before a stricter privacy level was chosen, are reduced now
+                const rows = await this.prepareRows(batch.rows);
+                const stored = await this.postgresManager.storeSimplePrompts(
+                    {
+                        results: rows,
+                        metadata: {
+                            total_results: rows.length,
+                            outbox_batch: batch.id,
+                            queued_at: batch.createdAt
+                        }
+                    },
+                    { sourceId: batch.sourceId, position: batch.position }
+                );
+                this.outbox.remove(batch.id);
+                const status = this.sourceStatuses.get(batch.sourceId);
+                if (status) {
+                    status.promptsStored += stored.inserted;
+                }
+                this.outputChannel.appendLine(`📤 Delivered queued batch from ${new Date(batch.createdAt).toLocaleString()}: ${stored.inserted} stored, ${stored.duplicates} duplicates`);
+            } catch (error: any) {
+                this.outputChannel.appendLine(`Outbox drain stopped, ${this.outbox.getSummary().batches} batches still queued: ${error.message || error}`);
+                this.handleFailure(this.postgresBreaker, error);
+                return false;
+            } finally {
+                this.updateStatusBar();
+            }
+
+            batch = this.outbox.peek();
+        }
+
+        this.postgresBreaker.recordSuccess();
+        this.outputChannel.appendLine(`✅ Offline outbox drained`);
+        return true;
+    }
+
+    /**
+     * Reconnect in the background when credentials exist but the connection was lost or never came up
+     */
+    private async reconnectPostgres(): Promise<void> {
+        if (!await hasPostgresRoleSecret() && !await getEnrollmentTokenSecret()) {
+            return;
+        }
+
+        if (await this.configurePostgres(true)) {
+            this.outputChannel.appendLine(`🔌 PostgreSQL connection restored`);
+            await this.context.globalState.update('cursorPromptSync.postgresConfigured', true);
+        }
+    }
+
+    private getOutboxMaxBytes(): number {
+        const maxSizeMb = vscode.workspace.getConfiguration('cursorSqlRunner').get<number>('outbox.maxSizeMB', 50);
+        return Math.max(1, maxSizeMb) * 1024 * 1024;
+    }
+
+    private formatBytes(bytes: number): string {
+        return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+    }
+
+    private describeRedactionRules(): string {
+        const ruleIds = Redactor.fromConfiguration(() => undefined).getRuleIds();
+        const custom = ruleIds.filter(id => id.startsWith('custom:')).length;
+        return `${ruleIds.length - custom} built-in detectors, ${custom} custom rules`;
+    }
+
+    /**
+     * Countdown text such as "2h 14m" or "9m"
+     */
+    private formatRemaining(ms: number): string {
+        const minutes = Math.max(1, Math.ceil(ms / 60000));
+        const hours = Math.floor(minutes / 60);
+        return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+    }
+
+    private formatCounts(counts: Record<string, number>): string[] {
+        return Object.entries(counts).map(([type, count]) => `${type}: ${count}`);
+    }
+
+    /**
+     * Get the current status
+     */
+    getStatus(): {
+        isRunning: boolean;
+        intervalMinutes: number;
+        lastExecution: Date | null;
+        executionCount: number;
+        errorCount: number;
+        localErrorCounts: Record<string, number>;
+        privacyLevel: PrivacyLevel;
+        outbox: OutboxSummary;
+        sources: Array<{
+            sourceId: string;
+            databasePath: string;
+            lastSyncAt: Date | null;
+            promptsStored: number;
+            promptsExcluded: number;
+            lastError: string | null;
+            position: SyncWatermark | null;
+            circuit: string;
+        }>;
+        syncMode: SyncMode;
+        watcherActive: boolean;
+        pausedUntil: Date | null;
+        forgottenPrompts: number;
+    } {
+        return {
+            isRunning: this.isRunning,
+            intervalMinutes: this.intervalMinutes,
+            syncMode: this.syncMode,
+            watcherActive: this.isWatching(),
+            pausedUntil: this.isPaused() ? this.pausedUntil : null,
+            forgottenPrompts: this.tombstones.size,
+            lastExecution: this.lastExecution,
+            executionCount: this.executionCount,
+            errorCount: this.errorCount,
+            localErrorCounts: { ...this.localErrorCounts },
+            privacyLevel: getPrivacyLevel(),
+            outbox: this.outbox.getSummary(),
+            sources: Array.from(this.sourceStatuses.values()).map(source => ({
+                sourceId: source.sourceId,
+                databasePath: source.databasePath,
+                lastSyncAt: source.lastSyncAt,
+                promptsStored: source.promptsStored,
+                promptsExcluded: source.promptsExcluded,
+                lastError: source.lastError,
+                position: this.outbox.getPosition(source.sourceId),
+                circuit: source.breaker.describe()
+            }))
+        };
+    }
+
+    /**
+     * Show detailed status information
+     */
+    async showStatus(): Promise<void> {
+        this.syncSourceStatuses(await getDatabaseSourcesSecret());
+        const status = this.getStatus();
+        
+        const userId = await getUserIdSecret() || 'Not configured';
+        const { host: postgresHost, port: postgresPort, database: postgresDatabase, tableName: postgresTable, schema: postgresSchema } =
+            this.postgresManager.getConfig() || await this.postgresManager.resolveConfig();
+        
+        const postgresStatus = this.postgresManager.isInitialized() ? '✅ Connected' : '⚠️ Not connected';
+        const projectFilter = ProjectFilter.fromConfiguration(message => this.outputChannel.appendLine(`⚠️ ${message}`));
+        
+        // Get auto-startup status
+        let autoStartupInfo: string[] = [];
+        if (this.autoStartupManager) {
+            const autoStatus = this.autoStartupManager.getStatus();
+            autoStartupInfo = [
+                '',
+                '🚀 **AUTO-STARTUP**',
+                `🔄 Enabled: ${autoStatus.autoStartupEnabled ? 'Yes' : 'No'}`,
+                `🆕 Always Start on Open: ${autoStatus.alwaysStartOnOpen ? 'Yes' : 'No'}`,
+                `🔄 Behavior: ${autoStatus.autoStartupEnabled ? 'Start automatically when VS Code/Cursor opens' : 'Stays off until started manually'}`,
+                `⏰ No Timeout: Scheduler can be stopped indefinitely`,
+            ];
+        }
+
+        const statusText = [
+            '📊 Prompt Sync Status',
+            '',
+            '⚡ **SCHEDULER**',
+            `🟢 Running: ${status.isRunning ? 'Yes' : 'No'}`,
+            ...(status.pausedUntil ? [`⏸️ Paused: until ${status.pausedUntil.toLocaleString()} (${this.formatRemaining(status.pausedUntil.getTime() - Date.now())} left)`] : []),
+            `📂 SQL Query: Embedded (Built-in)`,
+            `🔄 Mode: ${status.syncMode === 'watch' ? `Watch for changes (${status.watcherActive ? 'active' : 'inactive - polling'})` : 'Interval polling'}`,
+            `⏰ ${status.syncMode === 'watch' ? 'Fallback interval' : 'Interval'}: ${status.intervalMinutes} minutes`,
+            `📈 Executions: ${status.executionCount}`,
+            `❌ Errors: ${status.errorCount}`,
+            ...this.formatCounts(status.localErrorCounts).map(line => `   ${line}`),
+            `🕒 Last Execution: ${status.lastExecution ? status.lastExecution.toLocaleString() : 'Never'}`,
+            `🔌 ${this.postgresBreaker.describe()}`,
+            ...autoStartupInfo,
+            '',
+            '📂 **SOURCES**',
+            ...(status.sources.length > 0 ? status.sources.flatMap(source => [
+                `📂 ${source.databasePath}`,
+                `   🆔 Source ID: ${source.sourceId}`,
+                `   🕒 Last Sync: ${source.lastSyncAt ? source.lastSyncAt.toLocaleString() : 'Never'}`,
+                `   📈 Prompts Stored: ${source.promptsStored}`,
+                ...(source.promptsExcluded > 0 ? [`   🚫 Prompts Excluded: ${source.promptsExcluded}`] : []),
+                `   📍 Position: ${source.position ? new Date(source.position.clientRpcSendTime).toLocaleString() : 'Not synced yet'}`,
+                `   🔌 ${source.circuit}`,
+                ...(source.lastError ? [`   ❌ Last Error: ${source.lastError}`] : [])
+            ]) : ['❌ No source databases configured']),
+            '',
+            '🔒 **PRIVACY**',
+            `🔒 Level: ${status.privacyLevel.toUpperCase()} - ${PRIVACY_LEVEL_DESCRIPTIONS[status.privacyLevel]}`,
+            `🚫 Project Rules: ${projectFilter.hasRules() ? projectFilter.describe() : 'None - prompts from every project are synced'}`,
+            `🗑️ Deleted Prompts: ${status.forgottenPrompts} never synced again`,
+            '',
+            '🛡️ **REDACTION**',
+            `🛡️ Enabled: ${Redactor.isEnabled() ? `Yes (${this.describeRedactionRules()})` : '⚠️ No - prompts are uploaded verbatim'}`,
+            `🔢 Findings: ${Object.keys(this.redactionCounts).length > 0 ? this.formatCounts(this.redactionCounts).join(', ') : 'None yet'}`,
+            '',
+            '🗄️ **DATABASES**',
+            `📂 Local Sources: ${status.sources.length === 0 ? '❌ Not configured' : `✅ ${status.sources.length} configured`}`,
+            `🐘 PostgreSQL Status: ${postgresStatus}`,
+            `🏠 Host: ${postgresHost}:${postgresPort}`,
+            `📋 Database: ${postgresDatabase}`,
+            `📋 Table: ${postgresSchema}.${postgresTable}`,
+            `👤 User ID: ${userId}`,
+            '',
+            '📤 **OFFLINE OUTBOX**',
+            `📦 Pending: ${status.outbox.batches} batches, ${status.outbox.prompts} prompts`,
+            `💾 Size: ${this.formatBytes(status.outbox.bytes)} of ${this.formatBytes(status.outbox.maxBytes)}`,
+            `🕒 Oldest: ${status.outbox.oldestAt ? new Date(status.outbox.oldestAt).toLocaleString() : 'None'}`,
+        ];
+
+        if (status.isRunning) {
+            const nextExecution = new Date(Date.now() + (status.intervalMinutes * 60 * 1000));
+            statusText.push('', `⏰ **NEXT EXECUTION**`, `${nextExecution.toLocaleString()}`);
+        }
+
+        const message = statusText.join('\n');
+        
+        // Show in both information message and output channel
+        vscode.window.showInformationMessage('Auto-Scheduler status displayed in output channel', 'Show Details')
+            .then(selection => {
+                if (selection === 'Show Details') {
+                    this.outputChannel.show();
+                }
+            });
+        
+        this.outputChannel.appendLine('\n' + message);
+        this.outputChannel.show();
+    }
+
+    /**
+     * Update the status bar
+     */
+    private updateStatusBar(): void {
+        const outbox = this.outbox.getSummary();
+        const backlogIndicator = outbox.batches > 0 ? ` $(cloud-upload) ${outbox.prompts}` : '';
+        const backlogTooltip = outbox.batches > 0
+            ? `\nOffline outbox: ${outbox.prompts} prompts in ${outbox.batches} batches (${this.formatBytes(outbox.bytes)})`
+            : '';
+
+        const breakers = [this.postgresBreaker, ...Array.from(this.sourceStatuses.values()).map(status => status.breaker)];
+        const degraded = breakers.some(breaker => breaker.getState() !== 'closed');
+        const circuitTooltip = breakers.map(breaker => `\n${breaker.describe()}`).join('');
+        const localErrors = this.formatCounts(this.localErrorCounts);
+        const localErrorTooltip = localErrors.length > 0 ? `\nLocal read errors: ${localErrors.join(', ')}` : '';
+
+        if (this.isPaused()) {
+            this.statusBarItem.text = `$(debug-pause) Sync paused (${this.formatRemaining(this.pausedUntil!.getTime() - Date.now())})${backlogIndicator}`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            this.statusBarItem.tooltip = `Prompt sync paused until ${this.pausedUntil!.toLocaleString()}${backlogTooltip}\nClick to resume or change the pause`;
+            this.statusBarItem.command = 'cursor-sql-runner.pauseSync';
+            return;
+        }
+        this.statusBarItem.command = 'cursor-sql-runner.toggleAutoScheduler';
+
+        if (this.isRunning) {
+            const retryIndicator = degraded ? ' $(debug-disconnect)' : '';
+            const watching = this.syncMode === 'watch' && this.isWatching();
+            const modeLabel = watching ? '$(eye) Auto-Schedule (live)' : `$(clock) Auto-Schedule (${this.intervalMinutes}m)`;
+            const privacyIndicator = getPrivacyLevel() !== 'full' ? ' $(lock)' : '';
+            this.statusBarItem.text = `${modeLabel} [${this.executionCount}/${this.errorCount}]${retryIndicator}${privacyIndicator}${backlogIndicator}`;
+            this.statusBarItem.backgroundColor = degraded ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+            const modeTooltip = watching
+                ? `Auto-scheduler syncing on database changes (fallback every ${this.intervalMinutes} minutes)`
+                : `Auto-scheduler running every ${this.intervalMinutes} minutes`;
+            this.statusBarItem.tooltip = `${modeTooltip}\nExecutions: ${this.executionCount}, Errors: ${this.errorCount}\nPrivacy: ${getPrivacyLevel()}${circuitTooltip}${localErrorTooltip}${backlogTooltip}\nClick to stop`;
+        } else {
+            this.statusBarItem.text = `$(clock) Auto-Schedule (Off)${backlogIndicator}`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            
+            let tooltipText = `Auto-scheduler stopped${backlogTooltip}\nClick to restart immediately`;
+            if (this.autoStartupManager) {
+                const status = this.autoStartupManager.getStatus();
+                tooltipText += status.autoStartupEnabled
+                    ? `\n🆕 Will auto-start on next VS Code/Cursor launch`
+                    : `\n⏹️ Auto-startup off - start manually`;
+            }
+            this.statusBarItem.tooltip = tooltipText;
+        }
+    }
+
+    /**
+     * Save state to workspace storage
+     */
+    private saveState(): void {
+        this.context.globalState.update('autoScheduler.intervalMinutes', this.intervalMinutes);
+        this.context.globalState.update('autoScheduler.syncMode', this.syncMode);
+        
+        this.context.workspaceState.update('autoScheduler.isRunning', this.isRunning);
+        this.context.workspaceState.update('autoScheduler.executionCount', this.executionCount);
+        this.context.workspaceState.update('autoScheduler.errorCount', this.errorCount);
+        this.context.workspaceState.update('autoScheduler.lastExecution', this.lastExecution?.toISOString());
+    }
+
+    /**
+     * Restore state from workspace storage
      */
     private restoreState(): void {
         this.intervalMinutes = this.context.globalState.get('autoScheduler.intervalMinutes', 60);
+        this.syncMode = this.context.globalState.get<SyncMode>('autoScheduler.syncMode', 'interval');
         
         // Restore session-specific data from workspace state
         this.executionCount = this.context.workspaceState.get('autoScheduler.executionCount', 0);
         this.errorCount = this.context.workspaceState.get('autoScheduler.errorCount', 0);
+        this.localErrorCounts = this.context.workspaceState.get<Record<string, number>>('autoScheduler.localErrorCounts', {});
+        this.redactionCounts = this.context.workspaceState.get<Record<string, number>>('autoScheduler.redactionCounts', {});
+        this.tombstones = new Set(this.context.globalState.get<string[]>('autoScheduler.tombstones', []));
+
+        // A pause outlives restarts; one that ran out while VS Code was closed is simply dropped
+        const pausedUntilStr = this.context.globalState.get<string>('autoScheduler.pausedUntil');
+        if (pausedUntilStr && Date.parse(pausedUntilStr) > Date.now()) {
+            this.pausedUntil = new Date(pausedUntilStr);
+            this.armPauseTimer();
+            this.updateStatusBar();
+        } else if (pausedUntilStr) {
+            this.context.globalState.update('autoScheduler.pausedUntil', undefined);
+        }
         
         const lastExecutionStr = this.context.workspaceState.get('autoScheduler.lastExecution', null);
         if (lastExecutionStr) {
@@ -921,6 +2203,11 @@ ORDER BY tfb.client_rpc_send_time DESC;`;
         if (this.intervalId) {
             clearInterval(this.intervalId);
         }
+        if (this.pauseTimerId) {
+            clearInterval(this.pauseTimerId);
+        }
+        this.clearRetry();
+        this.stopWatcher();
         this.statusBarItem.dispose();
         this.outputChannel.dispose();
     }
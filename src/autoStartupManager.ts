@@ -14,20 +14,20 @@ export class AutoStartupManager {
     }
 
     /**
-     * Initialize auto-startup on first installation or extension activation
+     * Enable auto-startup on first installation; later activations keep whatever the user chose
      */
     private initializeAutoStartup(): void {
         const isFirstInstall = this.context.globalState.get(this.STATE_KEYS.IS_FIRST_INSTALL, true);
         
-        // ALWAYS enable auto-startup (user requirement: always start on VS Code open)
-        this.context.globalState.update(this.STATE_KEYS.AUTO_STARTUP_ENABLED, true);
-        
         if (isFirstInstall) {
             // First installation
+            this.context.globalState.update(this.STATE_KEYS.AUTO_STARTUP_ENABLED, true);
             this.context.globalState.update(this.STATE_KEYS.IS_FIRST_INSTALL, false);
-            console.log('✅ First-time installation: Auto-startup enabled, scheduler will ALWAYS start on VS Code open');
+            console.log('✅ First-time installation: Auto-startup enabled, scheduler will start on VS Code open');
+        } else if (this.isAutoStartupEnabled()) {
+            console.log('✅ Auto-startup enabled - scheduler will start on VS Code open');
         } else {
-            console.log('✅ Auto-startup confirmed enabled - scheduler will ALWAYS start on VS Code open');
+            console.log('⏹️ Auto-startup disabled by the user - scheduler stays off until started manually');
         }
     }
 
@@ -39,14 +39,15 @@ export class AutoStartupManager {
     }
 
     /**
-     * Simple auto-start check - ALWAYS return true (always start on VS Code open)
+     * Auto-start check - true unless the user turned auto-startup off
      */
     shouldAutoStart(): boolean {
         if (!this.isAutoStartupEnabled()) {
+            console.log('⏹️ VS Code/Cursor opened - auto-startup disabled, not starting the scheduler');
             return false;
         }
 
-        console.log('🚀 VS Code/Cursor opened - will auto-start scheduler (always ON behavior)');
+        console.log('🚀 VS Code/Cursor opened - will auto-start scheduler');
         return true;
     }
 
@@ -59,11 +60,10 @@ export class AutoStartupManager {
     }
 
     /**
-     * Always force start on VS Code/Cursor launch
+     * Start on VS Code/Cursor launch whenever auto-startup is enabled (no thresholds)
      */
     shouldForceStartOnFreshLaunch(): boolean {
-        console.log('🆕 VS Code/Cursor launch detected - forcing auto-start (no thresholds)');
-        return true;
+        return this.isAutoStartupEnabled();
     }
 
     /**
@@ -75,7 +75,7 @@ export class AutoStartupManager {
     } {
         return {
             autoStartupEnabled: this.isAutoStartupEnabled(),
-            alwaysStartOnOpen: true // Always start when VS Code/Cursor opens
+            alwaysStartOnOpen: this.isAutoStartupEnabled()
         };
     }
 
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getSourceId } from './syncWatermark';
+
+/**
+ * A Cursor state.vscdb found on this machine
+ */
+export interface DiscoveredDatabase {
+    path: string;
+    sourceId: string;
+    /** Application data folder it belongs to, e.g. "Cursor" or "Cursor - Insiders" */
+    installation: string;
+    /** Profile name, or null for the default profile */
+    profile: string | null;
+    /** Main file plus WAL */
+    size: number;
+    modified: Date;
+}
+
+interface UserDataDirectory {
+    directory: string;
+    installation: string;
+}
+
+/**
+ * User data folders or state.vscdb files from cursorSqlRunner.discovery.additionalPaths, with ~ expanded
+ */
+export function getConfiguredAdditionalPaths(): string[] {
+    const configured = vscode.workspace.getConfiguration('cursorSqlRunner').get<string[]>('discovery.additionalPaths', []);
+    return configured
+        .filter(entry => typeof entry === 'string' && entry.trim())
+        .map(entry => entry.trim().replace(/^~(?=$|[\\/])/, os.homedir()));
+}
+
+/**
+ * Folders that may hold Cursor user data: every "Cursor*" folder in the platform's application data directory
+ * (so Insiders and Nightly builds are found too), a portable install and any folders from
+ * cursorSqlRunner.discovery.additionalPaths.
+ */
+export function getUserDataDirectories(additionalPaths: string[] = getConfiguredAdditionalPaths()): UserDataDirectory[] {
+    const homeDir = os.homedir();
+    let appDataRoot: string;
+
+    if (process.platform === 'win32') {
+        appDataRoot = process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming');
+    } else if (process.platform === 'darwin') {
+        appDataRoot = path.join(homeDir, 'Library', 'Application Support');
+    } else {
+        appDataRoot = process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config');
+    }
+
+    const directories: UserDataDirectory[] = [];
+
+    for (const entry of readDirectory(appDataRoot)) {
+        if (/^cursor/i.test(entry)) {
+            directories.push({ directory: path.join(appDataRoot, entry), installation: entry });
+        }
+    }
+
+    // Portable installs keep their data next to the executable
+    if (process.env.VSCODE_PORTABLE) {
+        directories.push({ directory: path.join(process.env.VSCODE_PORTABLE, 'user-data'), installation: 'Portable' });
+    }
+
+    for (const additional of additionalPaths) {
+        directories.push({ directory: additional, installation: 'Custom' });
+    }
+
+    return directories;
+}
+
+/**
+ * Every state.vscdb under the user data folders, including one per profile, most recently used first.
+ * Entries in additionalPaths may point at a user data folder or directly at a state.vscdb file.
+ */
+export function discoverCursorDatabases(additionalPaths: string[] = getConfiguredAdditionalPaths()): DiscoveredDatabase[] {
+    const candidates: { path: string; installation: string; profile: string | null }[] = [];
+
+    for (const { directory, installation } of getUserDataDirectories(additionalPaths)) {
+        if (path.basename(directory) === 'state.vscdb') {
+            candidates.push({ path: directory, installation, profile: null });
+            continue;
+        }
+
+        const userDirectory = path.join(directory, 'User');
+        candidates.push({ path: path.join(userDirectory, 'globalStorage', 'state.vscdb'), installation, profile: null });
+
+        const profileNames = readProfileNames(userDirectory);
+        for (const profileId of readDirectory(path.join(userDirectory, 'profiles'))) {
+            candidates.push({
+                path: path.join(userDirectory, 'profiles', profileId, 'globalStorage', 'state.vscdb'),
+                installation,
+                profile: profileNames[profileId] || profileId
+            });
+        }
+    }
+
+    const seen = new Set<string>();
+    const databases: DiscoveredDatabase[] = [];
+
+    for (const candidate of candidates) {
+        const main = statIfExists(candidate.path);
+        if (!main || !main.isFile()) {
+            continue;
+        }
+
+        const resolved = fs.realpathSync(candidate.path);
+        if (seen.has(resolved)) {
+            continue;
+        }
+        seen.add(resolved);
+
+        const wal = statIfExists(`${candidate.path}-wal`);
+        databases.push({
+            ...candidate,
+            sourceId: getSourceId(candidate.path),
+            size: main.size + (wal?.size || 0),
+            modified: new Date(Math.max(main.mtimeMs, wal?.mtimeMs || 0))
+        });
+    }
+
+    return databases.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+}
+
+/**
+ * Most recently used database, the sensible default when nothing has been chosen yet
+ */
+export function findMostRecentDatabase(additionalPaths: string[] = getConfiguredAdditionalPaths()): string | null {
+    let best: { path: string; modified: number } | null = null;
+
+    for (const { directory } of getUserDataDirectories(additionalPaths)) {
+        const candidate = path.basename(directory) === 'state.vscdb'
+            ? directory
+            : path.join(directory, 'User', 'globalStorage', 'state.vscdb');
+        const stats = statIfExists(candidate);
+        if (stats && stats.isFile() && (!best || stats.mtimeMs > best.modified)) {
+            best = { path: candidate, modified: stats.mtimeMs };
+        }
+    }
+
+    return best?.path || null;
+}
+
+/**
+ * Profile display names by folder id, from the userDataProfiles entry in storage.json
+ */
+function readProfileNames(userDirectory: string): Record<string, string> {
+    try {
+        const storage = JSON.parse(fs.readFileSync(path.join(userDirectory, 'globalStorage', 'storage.json'), 'utf8'));
+        const names: Record<string, string> = {};
+        for (const profile of storage.userDataProfiles || []) {
+            if (profile?.location && profile?.name) {
+                names[profile.location] = profile.name;
+            }
+        }
+        return names;
+    } catch {
+        return {};
+    }
+}
+
+function readDirectory(directory: string): string[] {
+    try {
+        return fs.readdirSync(directory);
+    } catch {
+        return [];
+    }
+}
+
+function statIfExists(filePath: string): fs.Stats | null {
+    try {
+        return fs.statSync(filePath);
+    } catch {
+        return null;
+    }
+}
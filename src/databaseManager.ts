@@ -1,16 +1,111 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as path from 'path';
 import { getDatabasePathSecret, getUserIdSecret } from './secretStorage';
+import { readDatabaseSnapshot, getDatabaseSignature, TornReadError } from './walSnapshot';
 
 export interface QueryResult {
     [key: string]: any;
 }
 
+/** Named parameters bound to a query, keyed with their prefix, e.g. { $target_ms: 0 } */
+export interface QueryParams {
+    [name: string]: string | number | null;
+}
+
+export interface TableInfo {
+    name: string;
+    type: 'table' | 'view';
+    rowCount: number;
+}
+
+export interface DatabaseInfo {
+    path: string;
+    size: number;
+    walSize: number;
+    tables: TableInfo[];
+    /** Rows across all tables */
+    recordCount: number;
+}
+
+export interface TableColumn {
+    cid: number;
+    name: string;
+    type: string;
+    notnull: number;
+    dflt_value: any;
+    pk: number;
+}
+
+export interface KeyPrefixStats {
+    prefix: string;
+    keyCount: number;
+    keyBytes: number;
+    valueBytes: number;
+}
+
+/**
+ * The Cursor database path is not configured or the file does not exist
+ */
+export class DatabaseNotFound extends Error {
+    constructor(message: string, public readonly databasePath?: string) {
+        super(message);
+        this.name = 'DatabaseNotFound';
+    }
+}
+
+/**
+ * sql.js (the WebAssembly SQLite build) could not be loaded
+ */
+export class SqlJsInitFailed extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SqlJsInitFailed';
+    }
+}
+
+/**
+ * A query against the Cursor database failed
+ */
+export class QueryFailed extends Error {
+    constructor(message: string, public readonly query: string) {
+        super(message);
+        this.name = 'QueryFailed';
+    }
+}
+
+interface CachedDatabase {
+    db: any;
+    path: string;
+    /** mtime and size of the main file and WAL the handle was loaded from */
+    signature: string;
+    /** Checked against the files since the current snapshot began */
+    validated: boolean;
+    idleTimer: NodeJS.Timeout | null;
+}
+
+// Release the in-memory copy of a state.vscdb after this long without queries against it
+const CACHE_IDLE_RELEASE_MS = 5 * 60 * 1000;
+
+// Attempts at reading a consistent snapshot while Cursor is writing
+const MAX_SNAPSHOT_ATTEMPTS = 3;
+
+// Databases larger than this are not loaded into memory only to show their login email
+const MAX_EMAIL_LOOKUP_BYTES = 256 * 1024 * 1024;
+
+function isCorruptRead(error: any): boolean {
+    return error instanceof TornReadError || /malformed|not a database|disk image/i.test(String(error?.message || error));
+}
+
 export class DatabaseManager {
     private sql: any;
     private sqlInitialized: boolean = false;
+    private sqlInitError: string | null = null;
     private initializationPromise: Promise<void>;
     private outputChannel: vscode.OutputChannel;
+    // One handle per database path, so syncing several installs does not reload each one every run
+    private cache = new Map<string, CachedDatabase>();
+    private snapshotDepth: number = 0;
 
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('Cursor SQL Runner - Database');
@@ -23,24 +118,40 @@ export class DatabaseManager {
             const initSqlJs = require('sql.js');
             this.sql = await initSqlJs();
             this.sqlInitialized = true;
-        } catch (error) {
+        } catch (error: any) {
             this.sql = null;
             this.sqlInitialized = false;
+            this.sqlInitError = error?.message || String(error);
+            this.outputChannel.appendLine(`❌ sql.js failed to initialize: ${this.sqlInitError}`);
         }
     }
 
-    async executeQuery(query: string, cancellationToken?: vscode.CancellationToken): Promise<QueryResult[]> {
-        // Wait for SQL initialization to complete
-        await this.initializationPromise;
-        
+    /**
+     * Strict mode (the default) raises typed errors instead of returning empty, scanned or made-up data
+     */
+    private isStrictMode(): boolean {
+        return vscode.workspace.getConfiguration('cursorSqlRunner').get<boolean>('strictMode', true);
+    }
+
+    async executeQuery(query: string, cancellationToken?: vscode.CancellationToken, params?: QueryParams): Promise<QueryResult[]> {
         const databasePath = await getDatabasePathSecret();
         
         if (!databasePath) {
-            throw new Error('Database path not configured. Please set the Cursor database path first.');
+            throw new DatabaseNotFound('Database path not configured. Please set the Cursor database path first.');
         }
 
+        return this.executeQueryAt(databasePath, query, params);
+    }
+
+    /**
+     * Run a query against a specific Cursor database instead of the configured one
+     */
+    async executeQueryAt(databasePath: string, query: string, params?: QueryParams): Promise<QueryResult[]> {
+        // Wait for SQL initialization to complete
+        await this.initializationPromise;
+
         if (!fs.existsSync(databasePath)) {
-            throw new Error(`Database file not found: ${databasePath}`);
+            throw new DatabaseNotFound(`Database file not found: ${databasePath}`, databasePath);
         }
 
         // Validate query (only allow SELECT for safety)
@@ -49,57 +160,214 @@ export class DatabaseManager {
             throw new Error('Only SELECT and WITH queries are allowed for safety');
         }
 
-        try {
-            if (this.sqlInitialized && this.sql) {
-                // Use sql.js to read SQLite database
-                return await this.executeSQLiteQuery(databasePath, query);
-            } else {
-                // Fallback for specific queries
-            if (trimmedQuery.includes('itemtable') && trimmedQuery.includes('cursorauth/cachedemail')) {
-                return await this.getCachedEmailFallback();
-                }
-                
-                // For conversation queries, try to parse the database manually
-                if (trimmedQuery.includes('conversations') || trimmedQuery.includes('message')) {
-                    return await this.parseConversationData(databasePath, query);
-                }
-                
-                return [];
+        const strict = this.isStrictMode();
+
+        if (!this.sqlInitialized || !this.sql) {
+            if (strict) {
+                throw new SqlJsInitFailed(`sql.js is not available: ${this.sqlInitError || 'unknown error'}`);
             }
+            return this.legacyFallback(databasePath, query);
+        }
+
+        try {
+            return await this.executeSQLiteQuery(databasePath, query, params);
         } catch (error: any) {
-            this.outputChannel.appendLine(`Database error: ${error.message}`);
-            // Fallback to mock data if database reading fails
-            if (trimmedQuery.includes('itemtable') && trimmedQuery.includes('cursorauth/cachedemail')) {
-                return await this.getCachedEmailFallback();
+            if (strict) {
+                throw error;
             }
-            return [];
+            this.outputChannel.appendLine(`Database error: ${error.message}`);
+            return this.legacyFallback(databasePath, query);
+        }
+    }
+
+    /**
+     * Pre-strict-mode behaviour, only used with cursorSqlRunner.strictMode disabled:
+     * a placeholder email, a regex scan of the raw file, or no rows at all
+     */
+    private async legacyFallback(databasePath: string, query: string): Promise<QueryResult[]> {
+        const trimmedQuery = query.trim().toLowerCase();
+        this.outputChannel.appendLine(`⚠️ Strict mode is off - returning fallback data instead of an error`);
+
+        if (trimmedQuery.includes('itemtable') && trimmedQuery.includes('cursorauth/cachedemail')) {
+            return await this.getCachedEmailFallback();
+        }
+        
+        // For conversation queries, try to parse the database manually
+        if (trimmedQuery.includes('conversations') || trimmedQuery.includes('message')) {
+            return await this.parseConversationData(databasePath, query);
         }
+        
+        return [];
     }
 
-    private async executeSQLiteQuery(databasePath: string, query: string): Promise<QueryResult[]> {
+    /**
+     * Cached login email of any Cursor database. Uses the cached handle if the database is already open;
+     * otherwise loads a throwaway copy, unless the database is too large to load just for an email.
+     */
+    async readCachedEmail(databasePath: string): Promise<string | null> {
+        await this.initializationPromise;
+        if (!this.sqlInitialized || !this.sql) {
+            throw new SqlJsInitFailed(`sql.js is not available: ${this.sqlInitError || 'unknown error'}`);
+        }
+
+        const query = `SELECT value FROM ItemTable WHERE key = 'cursorAuth/cachedEmail' LIMIT 1`;
+        const readValue = (result: any[]) => {
+            const value = result[0]?.values[0]?.[0];
+            return typeof value === 'string' && value ? value : null;
+        };
+
+        const cached = this.cache.get(databasePath);
+        if (cached) {
+            return readValue(cached.db.exec(query));
+        }
+
+        const size = [databasePath, `${databasePath}-wal`]
+            .reduce((total, file) => total + (fs.existsSync(file) ? fs.statSync(file).size : 0), 0);
+        if (size > MAX_EMAIL_LOOKUP_BYTES) {
+            return null;
+        }
+
+        const db = new this.sql.Database(readDatabaseSnapshot(databasePath).buffer);
         try {
-            // Read the SQLite database file
-            const dbBuffer = fs.readFileSync(databasePath);
-            
-            const db = new this.sql.Database(dbBuffer);
+            return readValue(db.exec(query));
+        } finally {
+            db.close();
+        }
+    }
+
+    /**
+     * Pin the database handle so every query until endSnapshot sees the same data,
+     * even if Cursor writes to the file in between. Snapshots nest.
+     */
+    beginSnapshot(): void {
+        if (this.snapshotDepth === 0) {
+            this.cache.forEach(cached => cached.validated = false);
+        }
+        this.snapshotDepth++;
+    }
+
+    endSnapshot(): void {
+        this.snapshotDepth = Math.max(0, this.snapshotDepth - 1);
+    }
+
+    private async executeSQLiteQuery(databasePath: string, query: string, params?: QueryParams, attempt: number = 1): Promise<QueryResult[]> {
+        try {
+            const db = await this.getDatabaseHandle(databasePath);
             
             // Execute the query
             const stmt = db.prepare(query);
             
             const results: QueryResult[] = [];
             
-            while (stmt.step()) {
-                const row = stmt.getAsObject();
-                results.push(row);
+            try {
+                if (params) {
+                    stmt.bind(params);
+                }
+                while (stmt.step()) {
+                    const row = stmt.getAsObject();
+                    results.push(row);
+                }
+            } finally {
+                stmt.free();
             }
             
-            stmt.free();
-            db.close();
-            
             return results;
         } catch (error: any) {
+            // Corruption that only shows up in pages the query touches: reload the snapshot once
+            if (attempt === 1 && isCorruptRead(error)) {
+                this.outputChannel.appendLine(`⚠️ Corrupted read detected during query (${error.message}) - reloading snapshot`);
+                this.releaseCache(databasePath);
+                return this.executeSQLiteQuery(databasePath, query, params, attempt + 1);
+            }
             this.outputChannel.appendLine(`SQLite query execution failed: ${error.message}`);
-            throw new Error(`SQLite query execution failed: ${error.message}`);
+            throw new QueryFailed(`SQLite query execution failed: ${error.message}`, query);
+        }
+    }
+
+    /**
+     * Cached sql.js handle for a consistent snapshot of the database and its WAL,
+     * reloaded only when the mtime or size of either file changes
+     */
+    private async getDatabaseHandle(databasePath: string): Promise<any> {
+        const cached = this.cache.get(databasePath);
+        if (cached) {
+            this.scheduleIdleRelease(cached);
+        }
+
+        if (cached && this.snapshotDepth > 0 && cached.validated) {
+            return cached.db;
+        }
+
+        const signature = getDatabaseSignature(databasePath);
+        if (cached && cached.signature === signature) {
+            cached.validated = this.snapshotDepth > 0;
+            return cached.db;
+        }
+
+        this.releaseCache(databasePath);
+
+        for (let attempt = 1; ; attempt++) {
+            const startedAt = Date.now();
+            try {
+                const snapshot = readDatabaseSnapshot(databasePath);
+                const db = new this.sql.Database(snapshot.buffer);
+                try {
+                    // Fails on torn pages that slipped past the signature check
+                    db.exec('SELECT count(*) FROM sqlite_master');
+                } catch (error) {
+                    db.close();
+                    throw error;
+                }
+
+                const entry: CachedDatabase = { db, path: databasePath, signature: snapshot.signature, validated: this.snapshotDepth > 0, idleTimer: null };
+                this.cache.set(databasePath, entry);
+                this.scheduleIdleRelease(entry);
+
+                const memory = process.memoryUsage();
+                const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+                this.outputChannel.appendLine(
+                    `📂 Loaded ${path.basename(databasePath)} (${toMb(snapshot.buffer.length)} MB, ${snapshot.walFramesApplied} WAL frames) in ${Date.now() - startedAt} ms - ` +
+                    `process memory: rss ${toMb(memory.rss)} MB, heap ${toMb(memory.heapUsed)} MB, external ${toMb(memory.external)} MB`
+                );
+
+                return db;
+            } catch (error: any) {
+                if (attempt >= MAX_SNAPSHOT_ATTEMPTS || !isCorruptRead(error)) {
+                    throw error;
+                }
+                this.outputChannel.appendLine(`⚠️ Inconsistent read of ${path.basename(databasePath)} (attempt ${attempt}/${MAX_SNAPSHOT_ATTEMPTS}): ${error.message} - retrying`);
+                await new Promise(resolve => setTimeout(resolve, attempt * 250));
+            }
+        }
+    }
+
+    private scheduleIdleRelease(entry: CachedDatabase): void {
+        if (entry.idleTimer) {
+            clearTimeout(entry.idleTimer);
+        }
+        entry.idleTimer = setTimeout(() => {
+            entry.idleTimer = null;
+            if (this.snapshotDepth === 0 && this.cache.get(entry.path) === entry) {
+                this.outputChannel.appendLine(`🧹 Released cached ${path.basename(entry.path)} after ${CACHE_IDLE_RELEASE_MS / 60000} idle minutes`);
+                this.releaseCache(entry.path);
+            }
+        }, CACHE_IDLE_RELEASE_MS);
+    }
+
+    /**
+     * Close the cached handle for one database, or for all of them
+     */
+    private releaseCache(databasePath?: string): void {
+        const entries = databasePath ? [this.cache.get(databasePath)] : Array.from(this.cache.values());
+        for (const entry of entries) {
+            if (!entry) {
+                continue;
+            }
+            if (entry.idleTimer) {
+                clearTimeout(entry.idleTimer);
+            }
+            entry.db.close();
+            this.cache.delete(entry.path);
         }
     }
 
@@ -157,47 +425,121 @@ export class DatabaseManager {
         return fs.existsSync(databasePath);
     }
 
-    async getDatabaseInfo(): Promise<{ tables: string[], size: number, recordCount: number }> {
+    async getDatabaseInfo(): Promise<DatabaseInfo> {
         const databasePath = await getDatabasePathSecret();
 
         if (!databasePath || !fs.existsSync(databasePath)) {
-            throw new Error('Database not found');
+            throw new DatabaseNotFound('Database not found', databasePath);
         }
 
+        const walPath = `${databasePath}-wal`;
+        const size = fs.statSync(databasePath).size;
+        const walSize = fs.existsSync(walPath) ? fs.statSync(walPath).size : 0;
+
+        // Table list and counts come from one snapshot
+        this.beginSnapshot();
         try {
-            // Get database file size
-            const stats = fs.statSync(databasePath);
-            const size = stats.size;
+            const objects = await this.introspect(
+                `SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name`
+            );
 
-            // Mock data for cross-platform compatibility
-            const tables = ['ItemTable', 'cursorDiskKV', 'sqlite_master'];
-            const recordCount = 0;
+            const tables: TableInfo[] = [];
+            for (const object of objects) {
+                const counted = await this.introspect(`SELECT COUNT(*) AS row_count FROM ${this.quoteIdentifier(object.name)}`);
+                tables.push({ name: object.name, type: object.type, rowCount: Number(counted[0]?.row_count || 0) });
+            }
 
-            return { tables, size, recordCount };
-        } catch (error) {
-            throw new Error(`Failed to get database info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            const recordCount = tables.reduce((sum, table) => sum + table.rowCount, 0);
+            return { path: databasePath, size, walSize, tables, recordCount };
+        } finally {
+            this.endSnapshot();
         }
     }
 
-    async getTableSchema(tableName: string): Promise<QueryResult[]> {
-        // Mock implementation for cross-platform compatibility
-        return [
-            { cid: 0, name: 'key', type: 'TEXT', notnull: 0, dflt_value: null, pk: 1 },
-            { cid: 1, name: 'value', type: 'TEXT', notnull: 0, dflt_value: null, pk: 0 }
-        ];
+    async getTableSchema(tableName: string): Promise<TableColumn[]> {
+        await this.assertTableExists(tableName);
+        const columns = await this.introspect(
+            `SELECT cid, name, type, "notnull" AS not_null, dflt_value, pk FROM pragma_table_info(${this.quoteLiteral(tableName)})`
+        );
+        return columns.map(column => ({
+            cid: Number(column.cid),
+            name: column.name,
+            type: column.type,
+            notnull: Number(column.not_null),
+            dflt_value: column.dflt_value,
+            pk: Number(column.pk)
+        }));
     }
 
     async getSampleData(tableName: string, limit: number = 5): Promise<QueryResult[]> {
-        // Mock implementation for cross-platform compatibility
-        return [];
+        await this.assertTableExists(tableName);
+        const rowLimit = Math.max(1, Math.min(100, Math.floor(limit)));
+        return this.introspect(`SELECT * FROM ${this.quoteIdentifier(tableName)} LIMIT ${rowLimit}`);
+    }
+
+    /**
+     * Count and size cursorDiskKV entries by key prefix (the part before the first colon),
+     * e.g. bubbleId, composerData, checkpointId, codeBlockDiff
+     */
+    async getKeyPrefixBreakdown(): Promise<KeyPrefixStats[]> {
+        const rows = await this.introspect(`
+            SELECT
+                CASE WHEN instr(key, ':') > 0 THEN substr(key, 1, instr(key, ':') - 1) ELSE '(no prefix)' END AS prefix,
+                COUNT(*) AS key_count,
+                SUM(length(CAST(key AS BLOB))) AS key_bytes,
+                SUM(COALESCE(length(CAST(value AS BLOB)), 0)) AS value_bytes
+            FROM cursorDiskKV
+            GROUP BY prefix
+            ORDER BY value_bytes DESC
+        `);
+
+        return rows.map(row => ({
+            prefix: row.prefix,
+            keyCount: Number(row.key_count),
+            keyBytes: Number(row.key_bytes || 0),
+            valueBytes: Number(row.value_bytes || 0)
+        }));
+    }
+
+    /**
+     * Run an introspection query through sql.js; unlike executeQuery, failures are never masked
+     */
+    private async introspect(query: string): Promise<QueryResult[]> {
+        await this.initializationPromise;
+
+        const databasePath = await getDatabasePathSecret();
+        if (!databasePath || !fs.existsSync(databasePath)) {
+            throw new DatabaseNotFound('Database not found', databasePath);
+        }
+        if (!this.sqlInitialized || !this.sql) {
+            throw new SqlJsInitFailed(`sql.js is not available: ${this.sqlInitError || 'unknown error'}`);
+        }
+
+        return this.executeSQLiteQuery(databasePath, query);
+    }
+
+    private async assertTableExists(tableName: string): Promise<void> {
+        const found = await this.introspect(
+            `SELECT 1 FROM sqlite_master WHERE type IN ('table', 'view') AND name = ${this.quoteLiteral(tableName)}`
+        );
+        if (found.length === 0) {
+            throw new Error(`Table not found: ${tableName}`);
+        }
+    }
+
+    private quoteIdentifier(name: string): string {
+        return `"${name.replace(/"/g, '""')}"`;
+    }
+
+    private quoteLiteral(value: string): string {
+        return `'${value.replace(/'/g, "''")}'`;
     }
 
     async close(): Promise<void> {
-        // No-op since we're not maintaining persistent connections
-        return Promise.resolve();
+        this.releaseCache();
     }
 
     dispose() {
-        // No-op since we don't have native connections to dispose
+        this.releaseCache();
     }
 }
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface DatabaseWatcherOptions {
+    /** Quiet period after the last change before a sync is triggered */
+    debounceMs: number;
+    /** Upper bound on how long continuous writes can postpone a sync */
+    maxWaitMs: number;
+}
+
+/**
+ * Watches a SQLite database and its -wal file and reports debounced changes.
+ * The containing directory is watched because SQLite creates and deletes the WAL file.
+ */
+export class DatabaseWatcher {
+    private watcher: fs.FSWatcher | null = null;
+    private debounceTimer: NodeJS.Timeout | null = null;
+    private firstChangeAt: number | null = null;
+    private readonly watchedNames: string[];
+
+    constructor(
+        private databasePath: string,
+        private onChange: () => void,
+        private options: DatabaseWatcherOptions,
+        private onError: (error: Error) => void
+    ) {
+        const baseName = path.basename(databasePath);
+        this.watchedNames = [baseName, `${baseName}-wal`];
+    }
+
+    isActive(): boolean {
+        return this.watcher !== null;
+    }
+
+    /**
+     * Start watching. Returns false if the platform refused the watch, in which case
+     * the caller has to rely on polling.
+     */
+    start(): boolean {
+        if (this.watcher) {
+            return true;
+        }
+
+        try {
+            this.watcher = fs.watch(path.dirname(this.databasePath), { persistent: false }, (_event, fileName) => {
+                // Some platforms do not report the file name; treat that as a possible change
+                if (!fileName || this.watchedNames.includes(fileName.toString())) {
+                    this.schedule();
+                }
+            });
+            this.watcher.on('error', (error) => {
+                this.stop();
+                this.onError(error);
+            });
+            return true;
+        } catch (error: any) {
+            this.watcher = null;
+            this.onError(error);
+            return false;
+        }
+    }
+
+    stop(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        this.firstChangeAt = null;
+        this.watcher?.close();
+        this.watcher = null;
+    }
+
+    private schedule(): void {
+        const now = Date.now();
+        this.firstChangeAt = this.firstChangeAt ?? now;
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+
+        const delay = Math.min(this.options.debounceMs, Math.max(0, this.firstChangeAt + this.options.maxWaitMs - now));
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            this.firstChangeAt = null;
+            this.onChange();
+        }, delay);
+    }
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { QueryResult } from './databaseManager';
+import { PersonalDataExport } from './postgresManager';
 
 export class ExportManager {
     constructor() {}
@@ -48,6 +49,25 @@ export class ExportManager {
         return fileName;
     }
 
+    /**
+     * Write a personal data archive as JSON: one array of rows per table, plus row counts
+     */
+    async savePersonalDataExport(filePath: string, data: PersonalDataExport): Promise<void> {
+        const output = {
+            metadata: {
+                timestamp: data.exportedAt,
+                userId: data.userId,
+                format: 'cursor-prompt-sync-personal-data/1',
+                rowCounts: Object.fromEntries(Object.entries(data.tables).map(([table, rows]) => [table, rows.length])),
+                generatedBy: 'Cursor Prompt Sync Extension'
+            },
+            tables: data.tables
+        };
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(output, null, 2), 'utf8');
+    }
+
     private async saveAsJSON(filePath: string, results: QueryResult[], query: string, templateName?: string): Promise<void> {
         const output = {
             metadata: {
@@ -2,18 +2,13 @@ export const POSTGRES_DEFAULTS = {
     host: '3.108.9.100',
     port: 5432,
     database: 'cursor_analytics',
-    user: 'postgres',
-    password: 'postgres',
-    tableName: 'cursor_query_results'
+    tableName: 'cursor_query_results',
+    schema: 'public',
+    sslMode: 'disable' as const
 };
 
+// Group role allowed to call redeem_enrollment_token; admins grant it to the login configured as postgres.enrollmentUser
+export const ENROLLMENT_ROLE = 'cursor_prompt_sync_enroller';
 
-
-
-
-
-
-
-
-
-
+// Group role that enrolled users join; it has data rights on the sync tables and nothing else
+export const ENROLLED_USERS_ROLE = 'cursor_prompt_sync_writer';
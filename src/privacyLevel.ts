@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+/**
+ * How much prompt content is shared, from most to least:
+ * full text, the first characters only, a salted hash with size estimates, or metadata alone
+ */
+export type PrivacyLevel = 'full' | 'truncated' | 'hashed' | 'metadata';
+
+export const PRIVACY_LEVELS: PrivacyLevel[] = ['full', 'truncated', 'hashed', 'metadata'];
+
+export const PRIVACY_LEVEL_DESCRIPTIONS: Record<PrivacyLevel, string> = {
+    full: 'Full text of prompts and responses',
+    truncated: 'Only the first characters of prompts and responses',
+    hashed: 'Salted hash, length and token estimate - no text',
+    metadata: 'Timestamps, sessions and counts only - no text or hashes'
+};
+
+const DEFAULT_TRUNCATE_LENGTH = 200;
+
+export function getPrivacyLevel(): PrivacyLevel {
+    const level = vscode.workspace.getConfiguration('cursorSqlRunner').get<string>('privacy.level', 'full');
+    return PRIVACY_LEVELS.includes(level as PrivacyLevel) ? level as PrivacyLevel : 'full';
+}
+
+function getTruncateLength(): number {
+    const length = vscode.workspace.getConfiguration('cursorSqlRunner').get<number>('privacy.truncateLength', DEFAULT_TRUNCATE_LENGTH);
+    return Math.max(1, Math.floor(length));
+}
+
+/**
+ * Rough token count: about four characters per token for English text and code
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Reduce an extracted row to the given privacy level, in place, and record the level on the row.
+ * Rows already at the same or a stricter level are left alone, so applying a level twice is safe.
+ */
+export function applyPrivacyLevel(row: any, level: PrivacyLevel, salt: string): void {
+    if (PRIVACY_LEVELS.includes(row.privacy_level) && PRIVACY_LEVELS.indexOf(row.privacy_level) >= PRIVACY_LEVELS.indexOf(level)) {
+        return;
+    }
+
+    // Sizes are taken from the original text before it is reduced
+    if (typeof row.prompt === 'string') {
+        row.prompt_length = row.prompt_length ?? row.prompt.length;
+        row.prompt_token_estimate = row.prompt_token_estimate ?? estimateTokens(row.prompt);
+    }
+    if (typeof row.response === 'string') {
+        row.response_length = row.response_length ?? row.response.length;
+        row.response_token_estimate = row.response_token_estimate ?? estimateTokens(row.response);
+    }
+
+    switch (level) {
+        case 'truncated': {
+            const maxLength = getTruncateLength();
+            row.prompt = truncate(row.prompt, maxLength);
+            row.response = truncate(row.response, maxLength);
+            // Cursor names sessions after their first prompt
+            row.session_name = truncate(row.session_name, maxLength);
+            break;
+        }
+        case 'hashed':
+            row.prompt = hash(row.prompt, salt);
+            row.response = hash(row.response, salt);
+            // Cursor names sessions after their first prompt
+            row.session_name = null;
+            break;
+        case 'metadata':
+            row.prompt = null;
+            row.response = null;
+            row.session_name = null;
+            break;
+    }
+
+    row.privacy_level = level;
+}
+
+function truncate(text: any, maxLength: number): any {
+    return typeof text === 'string' && text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+}
+
+/**
+ * HMAC-SHA256 with a per-installation salt: equal prompts hash equally, but the text cannot be looked up
+ */
+function hash(text: any, salt: string): any {
+    if (typeof text !== 'string') {
+        return text;
+    }
+    return `hmac-sha256:${crypto.createHmac('sha256', salt).update(text).digest('hex')}`;
+}
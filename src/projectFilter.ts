@@ -0,0 +1,374 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as url from 'url';
+
+export type ProjectRuleType = 'workspace' | 'remote' | 'glob';
+
+/**
+ * One include or exclude rule, written in settings as "workspace:<folder>", "remote:<url pattern>" or "glob:<path pattern>"
+ */
+export interface ProjectRule {
+    type: ProjectRuleType;
+    value: string;
+    /** The rule as written, for logs and the dry run */
+    source: string;
+    matcher: RegExp;
+}
+
+/**
+ * Where a composer's prompts were written: file and folder paths it referenced and the git remotes of those paths
+ */
+export interface ProjectContext {
+    paths: string[];
+    remotes: string[];
+}
+
+export interface FilterDecision {
+    included: boolean;
+    /** Rule that decided, or null when no rule matched */
+    rule: string | null;
+    reason: string;
+}
+
+const RULE_PREFIX = /^(workspace|remote|glob):(.+)$/;
+const caseInsensitivePaths = process.platform === 'win32' || process.platform === 'darwin';
+
+/**
+ * Decides from a composer's project context whether its prompts may be synced.
+ * Exclude rules always win. When include rules exist, only matching projects are synced.
+ * Prompts whose project could not be determined are never synced while any rule is set.
+ */
+export class ProjectFilter {
+    constructor(private include: ProjectRule[], private exclude: ProjectRule[]) {}
+
+    /**
+     * Filter for cursorSqlRunner.projectFilter.include/exclude. Rules that cannot be parsed are reported and skipped.
+     */
+    static fromConfiguration(onInvalidRule: (message: string) => void): ProjectFilter {
+        const config = vscode.workspace.getConfiguration('cursorSqlRunner');
+        const parse = (entries: string[]) => entries
+            .map(entry => {
+                const rule = parseProjectRule(entry);
+                if (!rule) {
+                    onInvalidRule(`Project rule "${entry}" is not valid - use workspace:<folder>, remote:<url pattern> or glob:<path pattern>`);
+                }
+                return rule;
+            })
+            .filter((rule): rule is ProjectRule => rule !== null);
+
+        return new ProjectFilter(
+            parse(config.get<string[]>('projectFilter.include', [])),
+            parse(config.get<string[]>('projectFilter.exclude', []))
+        );
+    }
+
+    hasRules(): boolean {
+        return this.include.length > 0 || this.exclude.length > 0;
+    }
+
+    describe(): string {
+        return `${this.include.length} include, ${this.exclude.length} exclude rules`;
+    }
+
+    decide(context: ProjectContext): FilterDecision {
+        const excluded = this.exclude.find(rule => ruleMatches(rule, context));
+        if (excluded) {
+            return { included: false, rule: excluded.source, reason: 'matches an exclude rule' };
+        }
+
+        // Fail closed: an unknown project might be one of the excluded ones
+        if (this.exclude.length > 0 && context.paths.length === 0 && context.remotes.length === 0) {
+            return { included: false, rule: null, reason: 'project unknown and exclude rules are set' };
+        }
+
+        if (this.include.length === 0) {
+            return { included: true, rule: null, reason: 'no include rules' };
+        }
+
+        const included = this.include.find(rule => ruleMatches(rule, context));
+        if (included) {
+            return { included: true, rule: included.source, reason: 'matches an include rule' };
+        }
+
+        return {
+            included: false,
+            rule: null,
+            reason: context.paths.length === 0 && context.remotes.length === 0
+                ? 'project unknown and include rules are set'
+                : 'matches no include rule'
+        };
+    }
+}
+
+export function parseProjectRule(text: string): ProjectRule | null {
+    const match = RULE_PREFIX.exec(text.trim());
+    if (!match) {
+        return null;
+    }
+
+    const type = match[1] as ProjectRuleType;
+    const value = match[2].trim();
+    switch (type) {
+        case 'workspace': {
+            const folder = normalizePath(expandHome(value)).replace(/\/+$/, '');
+            // The folder itself or anything below it
+            return { type, value, source: text, matcher: new RegExp(`^${escapeRegExp(folder)}(?:/|$)`, caseInsensitivePaths ? 'i' : '') };
+        }
+        case 'remote':
+            return { type, value, source: text, matcher: globToRegExp(normalizeRemote(value), 'i') };
+        case 'glob':
+            return { type, value, source: text, matcher: globToRegExp(normalizePath(expandHome(value)), caseInsensitivePaths ? 'i' : '') };
+    }
+}
+
+function ruleMatches(rule: ProjectRule, context: ProjectContext): boolean {
+    if (rule.type === 'remote') {
+        return context.remotes.some(remote => rule.matcher.test(normalizeRemote(remote)));
+    }
+    return context.paths.some(contextPath => rule.matcher.test(normalizePath(contextPath)));
+}
+
+/**
+ * Pull project paths and git remotes out of raw context JSON from cursorDiskKV
+ * (composer context, messageRequestContext entries, file references of user bubbles).
+ * The JSON layout differs between Cursor versions, so strings are matched by shape rather than by field.
+ */
+export function extractProjectContext(rawValues: string[]): ProjectContext {
+    const paths = new Set<string>();
+    const remotes = new Set<string>();
+
+    for (const raw of rawValues) {
+        if (!raw) {
+            continue;
+        }
+
+        for (const match of raw.matchAll(/file:\/\/([^"\s\\]+)/g)) {
+            const decoded = safeDecode(match[1]).replace(/^\/([A-Za-z]:)/, '$1');
+            paths.add(decoded);
+        }
+        for (const match of raw.matchAll(/"((?:\/|[A-Za-z]:\\\\)(?:[^"\\]|\\.)+)"/g)) {
+            const value = parseJsonString(match[1]);
+            // Single segments like "/help" are slash commands rather than paths
+            if (value && value.split(/[\\/]/).filter(Boolean).length >= 2) {
+                paths.add(value);
+            }
+        }
+        for (const match of raw.matchAll(/(?:(?:https?|ssh|git):\/\/[^\s"'\\]+|git@[^\s"':\\]+:[^\s"'\\]+)/g)) {
+            if (/\.git$|github|gitlab|bitbucket|azure|ssh:|git@/i.test(match[0])) {
+                remotes.add(match[0]);
+            }
+        }
+    }
+
+    for (const remote of resolveGitRemotes(Array.from(paths))) {
+        remotes.add(remote);
+    }
+
+    return { paths: Array.from(paths), remotes: Array.from(remotes) };
+}
+
+// Git remotes by repository root, and repository root by directory; both only grow for the session
+const remotesByRepository = new Map<string, string[]>();
+const repositoryByDirectory = new Map<string, string | null>();
+
+/**
+ * Remote URLs of the git repositories that contain the given paths, read from .git/config on this machine
+ */
+export function resolveGitRemotes(paths: string[]): string[] {
+    const remotes = new Set<string>();
+
+    for (const contextPath of paths) {
+        // Starts at the path itself, so a referenced repository root finds its own .git
+        const repository = findRepositoryRoot(contextPath);
+        if (!repository) {
+            continue;
+        }
+
+        if (!remotesByRepository.has(repository)) {
+            remotesByRepository.set(repository, readRemotes(repository));
+        }
+        remotesByRepository.get(repository)!.forEach(remote => remotes.add(remote));
+    }
+
+    return Array.from(remotes);
+}
+
+function findRepositoryRoot(directory: string): string | null {
+    const visited: string[] = [];
+    let current = directory;
+    let found: string | null = null;
+
+    while (true) {
+        if (repositoryByDirectory.has(current)) {
+            found = repositoryByDirectory.get(current)!;
+            break;
+        }
+        visited.push(current);
+        if (fs.existsSync(path.join(current, '.git'))) {
+            found = current;
+            break;
+        }
+        const parent = path.dirname(current);
+        if (parent === current) {
+            break;
+        }
+        current = parent;
+    }
+
+    visited.forEach(visitedDirectory => repositoryByDirectory.set(visitedDirectory, found));
+    return found;
+}
+
+function readRemotes(repository: string): string[] {
+    try {
+        let gitDirectory = path.join(repository, '.git');
+        // Worktrees and submodules have a .git file pointing at the real git directory
+        if (fs.statSync(gitDirectory).isFile()) {
+            const pointer = /gitdir:\s*(.+)/.exec(fs.readFileSync(gitDirectory, 'utf8'));
+            if (!pointer) {
+                return [];
+            }
+            gitDirectory = path.resolve(repository, pointer[1].trim());
+        }
+        const config = fs.readFileSync(path.join(gitDirectory, 'config'), 'utf8');
+        return Array.from(config.matchAll(/^\s*url\s*=\s*(.+)$/gm), match => match[1].trim());
+    } catch {
+        return [];
+    }
+}
+
+// Workspace storage files above this size are not scanned for composer IDs
+const MAX_WORKSPACE_STATE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Workspace folders of composers, from Cursor's per-workspace storage next to the global database:
+ * User/workspaceStorage/<id>/workspace.json names the folder, and the IDs of the composers opened in that workspace
+ * are recorded in its state.vscdb. The files are searched for the IDs instead of being opened with sql.js,
+ * so checking many workspaces costs little memory.
+ */
+export function resolveWorkspaceFolders(globalDatabasePath: string, composerIds: string[]): Map<string, string[]> {
+    const folders = new Map<string, string[]>();
+    const workspaceStorage = path.join(path.dirname(path.dirname(globalDatabasePath)), 'workspaceStorage');
+    if (composerIds.length === 0 || !fs.existsSync(workspaceStorage)) {
+        return folders;
+    }
+
+    for (const entry of fs.readdirSync(workspaceStorage)) {
+        const directory = path.join(workspaceStorage, entry);
+        const folder = readWorkspaceFolder(directory);
+        if (!folder) {
+            continue;
+        }
+
+        for (const file of ['state.vscdb', 'state.vscdb-wal']) {
+            const content = readBounded(path.join(directory, file));
+            if (!content) {
+                continue;
+            }
+            for (const composerId of composerIds) {
+                if (content.includes(composerId)) {
+                    const known = folders.get(composerId) || [];
+                    if (!known.includes(folder)) {
+                        folders.set(composerId, [...known, folder]);
+                    }
+                }
+            }
+        }
+    }
+
+    return folders;
+}
+
+function readWorkspaceFolder(directory: string): string | null {
+    try {
+        const workspace = JSON.parse(fs.readFileSync(path.join(directory, 'workspace.json'), 'utf8'));
+        const uri: string | undefined = workspace.folder || workspace.workspace;
+        if (!uri) {
+            return null;
+        }
+        // Remote workspaces keep their path on the remote machine, which the rules can still match
+        const parsed = new URL(uri);
+        return parsed.protocol === 'file:' ? url.fileURLToPath(parsed) : safeDecode(parsed.pathname);
+    } catch {
+        return null;
+    }
+}
+
+function readBounded(filePath: string): Buffer | null {
+    try {
+        return fs.statSync(filePath).size <= MAX_WORKSPACE_STATE_BYTES ? fs.readFileSync(filePath) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * host/owner/repo for every remote URL form: https://, ssh://, git@host:owner/repo, with or without .git
+ */
+export function normalizeRemote(remote: string): string {
+    return remote.trim()
+        .replace(/^[a-z+]+:\/\//i, '')
+        .replace(/^[^@\/]+@/, '')
+        .replace(/^([^\/:]+):(?!\d+\/)/, '$1/')
+        .replace(/:\d+\//, '/')
+        .replace(/\.git$/i, '')
+        .replace(/\/+$/, '')
+        .toLowerCase();
+}
+
+function normalizePath(value: string): string {
+    return value.replace(/\\/g, '/');
+}
+
+function expandHome(value: string): string {
+    return value.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+/**
+ * ** matches across folders, * and ? within one folder
+ */
+function globToRegExp(glob: string, flags: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            i++;
+            if (glob[i + 1] === '/') {
+                // **/ spans whole directories only, so **/clients/** does not match myclients/
+                i++;
+                pattern += '(?:.*/)?';
+            } else {
+                pattern += '.*';
+            }
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${pattern}$`, flags);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+function parseJsonString(value: string): string | null {
+    try {
+        return JSON.parse(`"${value}"`);
+    } catch {
+        return null;
+    }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { DashboardData, DashboardFilters } from './analyticsDashboard';
 
 export class ResultsViewer {
     private context: vscode.ExtensionContext;
@@ -110,6 +111,146 @@ export class ResultsViewer {
         );
     }
 
+    /**
+     * Show the prompt analytics dashboard; filters posted from the webview reload it through loadData
+     */
+    async showAnalyticsDashboard(loadData: (filters: DashboardFilters) => Promise<DashboardData>): Promise<void> {
+        const panel = vscode.window.createWebviewPanel(
+            'cursorPromptAnalytics',
+            'Prompt Analytics',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        const render = async (filters: DashboardFilters) => {
+            try {
+                const data = await loadData(filters);
+                panel.webview.html = this.renderDashboardHTML(data);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                panel.webview.html = `<!DOCTYPE html><html><body><h2>Prompt Analytics</h2><p>Failed to load analytics: ${this.escapeHtml(message)}</p></body></html>`;
+            }
+        };
+
+        panel.webview.onDidReceiveMessage(
+            message => {
+                switch (message.command) {
+                    case 'applyFilters':
+                    case 'refresh':
+                        render(message.filters || {});
+                        return;
+                }
+            },
+            undefined,
+            this.context.subscriptions
+        );
+
+        panel.webview.html = '<!DOCTYPE html><html><body><p>Loading prompt analytics...</p></body></html>';
+        await render({});
+    }
+
+    private renderDashboardHTML(data: DashboardData): string {
+        const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+        const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+        const barChart = (rows: Array<{ label: string; value: number }>) => {
+            const max = Math.max(1, ...rows.map(row => row.value));
+            if (rows.length === 0) {
+                return '<p class="muted">No prompts in this range.</p>';
+            }
+            return '<table class="bars">' + rows.map(row => `
+                <tr>
+                    <td class="label">${this.escapeHtml(row.label)}</td>
+                    <td class="bar-cell"><div class="bar" style="width: ${(row.value / max) * 100}%"></div></td>
+                    <td class="value">${row.value}</td>
+                </tr>`).join('') + '</table>';
+        };
+
+        const heatmapMax = Math.max(1, ...data.heatmap.map(hours => Math.max(...hours)));
+        const heatmapHTML = `<table class="heatmap">
+            <tr><th></th>${Array.from({ length: 24 }, (_, hour) => `<th>${hour}</th>`).join('')}</tr>
+            ${data.heatmap.map((hours, weekday) => `<tr><th>${weekdays[weekday]}</th>${hours.map((count, hour) =>
+                `<td title="${weekdays[weekday]} ${hour}:00 - ${count} prompts" style="opacity: ${count === 0 ? 0.08 : 0.2 + 0.8 * (count / heatmapMax)}"></td>`).join('')}</tr>`).join('')}
+        </table>`;
+
+        const health = data.syncHealth;
+        const userOptions = ['<option value="">All users</option>', ...data.users.map(user =>
+            `<option value="${this.escapeHtml(user)}" ${user === data.filters.userId ? 'selected' : ''}>${this.escapeHtml(user)}</option>`)].join('');
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>Prompt Analytics</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); margin: 20px; }
+        h1 { margin-bottom: 4px; }
+        .muted { color: var(--vscode-descriptionForeground); }
+        .notice { padding: 8px; border-left: 3px solid var(--vscode-editorWarning-foreground); margin: 10px 0; }
+        .filters { display: flex; gap: 12px; align-items: end; margin: 16px 0; flex-wrap: wrap; }
+        .filters label { display: flex; flex-direction: column; font-size: 12px; }
+        .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); gap: 20px; }
+        .card { border: 1px solid var(--vscode-panel-border); padding: 12px; border-radius: 4px; }
+        table.bars { width: 100%; border-collapse: collapse; }
+        table.bars td { padding: 2px 6px; font-size: 12px; }
+        td.label { white-space: nowrap; width: 1%; }
+        td.value { text-align: right; width: 1%; }
+        .bar { height: 12px; background: var(--vscode-charts-blue, #3794ff); min-width: 1px; }
+        table.heatmap { border-collapse: collapse; font-size: 10px; }
+        table.heatmap td { width: 14px; height: 14px; background: var(--vscode-charts-green, #89d185); border: 1px solid var(--vscode-editor-background); }
+        table.heatmap th { font-weight: normal; padding: 0 3px; }
+        dl { display: grid; grid-template-columns: max-content auto; gap: 4px 12px; margin: 0; }
+        dt { color: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+    <h1>Prompt Analytics</h1>
+    <p class="muted">Source: ${data.source === 'postgres' ? 'PostgreSQL' : 'Local Cursor database'} · ${data.totalPrompts} prompts</p>
+    ${data.sourceNotice ? `<div class="notice">${this.escapeHtml(data.sourceNotice)}</div>` : ''}
+
+    <div class="filters">
+        <label>From <input type="date" id="startDate" value="${this.escapeHtml(data.filters.startDate || '')}"></label>
+        <label>To <input type="date" id="endDate" value="${this.escapeHtml(data.filters.endDate || '')}"></label>
+        <label>User <select id="userId">${userOptions}</select></label>
+        <button id="apply">Apply</button>
+        <button id="reset">Reset</button>
+    </div>
+
+    <div class="grid">
+        <div class="card"><h3>Prompts over time</h3>${barChart(data.promptsOverTime.map(row => ({ label: row.period, value: row.promptCount })))}</div>
+        <div class="card"><h3>Hour of day × weekday</h3>${heatmapHTML}</div>
+        <div class="card"><h3>Prompt length (characters)</h3>${barChart(data.lengthDistribution.map(row => ({ label: row.label, value: row.promptCount })))}</div>
+        <div class="card"><h3>Top sessions</h3>${barChart(data.topSessions.map(row => ({ label: row.name, value: row.promptCount })))}</div>
+        <div class="card">
+            <h3>Sync health</h3>
+            <dl>
+                <dt>Scheduler</dt><dd>${health.isRunning ? `Running every ${health.intervalMinutes} minutes` : 'Stopped'}</dd>
+                <dt>Last execution</dt><dd>${health.lastExecution ? this.escapeHtml(health.lastExecution.toLocaleString()) : 'Never'}</dd>
+                <dt>Executions</dt><dd>${health.executionCount}</dd>
+                <dt>Errors</dt><dd>${health.errorCount}</dd>
+                <dt>Latest prompt</dt><dd>${health.lastPromptAt ? this.escapeHtml(health.lastPromptAt) : 'None'}</dd>
+            </dl>
+        </div>
+    </div>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const value = id => document.getElementById(id).value || undefined;
+        document.getElementById('apply').addEventListener('click', () => {
+            vscode.postMessage({ command: 'applyFilters', filters: { startDate: value('startDate'), endDate: value('endDate'), userId: value('userId') } });
+        });
+        document.getElementById('reset').addEventListener('click', () => {
+            vscode.postMessage({ command: 'applyFilters', filters: {} });
+        });
+    </script>
+</body>
+</html>`;
+    }
+
     async showResultsInOutput(results: any[], query: string): Promise<void> {
         this.outputChannel.clear();
         this.outputChannel.appendLine('====================================================');
@@ -0,0 +1,200 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ErrorClassification {
+    /** Retryable errors are transient; fatal ones need the user to fix something first */
+    kind: 'retryable' | 'fatal';
+    reason: string;
+}
+
+export interface RetryPolicyOptions {
+    /** Consecutive failures before the circuit opens */
+    failureThreshold: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicyOptions = {
+    failureThreshold: 3,
+    baseDelayMs: 30 * 1000,
+    maxDelayMs: 30 * 60 * 1000
+};
+
+// PostgreSQL SQLSTATE codes that retrying cannot fix
+const FATAL_POSTGRES_CODES: Record<string, string> = {
+    '28000': 'authentication failed',
+    '28P01': 'authentication failed',
+    '3D000': 'database does not exist',
+    '3F000': 'schema does not exist',
+    '42501': 'insufficient privileges',
+    '42P01': 'schema mismatch (missing table)',
+    '42703': 'schema mismatch (missing column)',
+    '42804': 'schema mismatch (wrong column type)'
+};
+
+// A half-open trial that never reports back is given up after this long, so the circuit cannot stay stuck
+const TRIAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+const RETRYABLE_NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Sort a PostgreSQL or SQLite failure into retryable or fatal
+ */
+export function classifyError(error: any): ErrorClassification {
+    const code: string | undefined = error?.code;
+    const message = String(error?.message || error || '').toLowerCase();
+
+    // Typed errors from DatabaseManager: a missing file or a broken sql.js install will not fix itself
+    if (error?.name === 'DatabaseNotFound') {
+        return { kind: 'fatal', reason: 'local database not found' };
+    }
+    if (error?.name === 'SqlJsInitFailed') {
+        return { kind: 'fatal', reason: 'sql.js failed to initialize' };
+    }
+    if (code && FATAL_POSTGRES_CODES[code]) {
+        return { kind: 'fatal', reason: FATAL_POSTGRES_CODES[code] };
+    }
+    if (code && RETRYABLE_NETWORK_CODES.includes(code)) {
+        return { kind: 'retryable', reason: `network error (${code})` };
+    }
+    // Class 08 connection exceptions, 53 insufficient resources, 57P0x shutdowns, 40xxx transaction rollbacks
+    if (code && /^(08|53|57P0|40)/.test(code)) {
+        return { kind: 'retryable', reason: `server unavailable (${code})` };
+    }
+    if (message.includes('password authentication failed') || message.includes('enrollment token was rejected')) {
+        return { kind: 'fatal', reason: 'authentication failed' };
+    }
+    if (message.includes('timeout') || message.includes('terminated unexpectedly') || message.includes('connection terminated')) {
+        return { kind: 'retryable', reason: 'connection timeout' };
+    }
+
+    // SQLite: Cursor holds the database while writing, so busy and locked clear up on their own
+    if (message.includes('database is locked') || message.includes('sqlite_busy') || message.includes('ebusy')) {
+        return { kind: 'retryable', reason: 'local database busy' };
+    }
+    if (message.includes('malformed') || message.includes('changed while it was being read')) {
+        return { kind: 'retryable', reason: 'inconsistent local read' };
+    }
+    if (message.includes('no such table') || message.includes('no such column')) {
+        return { kind: 'fatal', reason: 'unexpected local database schema' };
+    }
+
+    return { kind: 'retryable', reason: 'unknown error' };
+}
+
+/**
+ * Circuit breaker with exponential backoff and jitter.
+ * Closed: every run is attempted and failures are retried after a growing delay.
+ * Open: runs are skipped until the delay has passed (or until reset, after a fatal error).
+ * Half-open: exactly one trial run is let through and decides between closed and open again;
+ * other attempts are rejected until it reports back.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openUntil: number | null = null;
+    private trialStartedAt: number | null = null;
+    private lastFailure: (ErrorClassification & { message: string; at: Date }) | null = null;
+
+    constructor(public readonly name: string, private options: RetryPolicyOptions = DEFAULT_RETRY_POLICY) {}
+
+    getState(now: number = Date.now()): CircuitState {
+        if (this.state === 'open' && this.openUntil !== null && now >= this.openUntil) {
+            this.state = 'half-open';
+        }
+        return this.state;
+    }
+
+    /**
+     * Whether an attempt would be let through, without claiming the half-open trial
+     */
+    canAttempt(now: number = Date.now()): boolean {
+        const state = this.getState(now);
+        return state === 'closed' || (state === 'half-open' && !this.isTrialInFlight(now));
+    }
+
+    /**
+     * Claim permission for an attempt. In half-open only the first caller gets through;
+     * the attempt must end in recordSuccess or recordFailure.
+     */
+    beginAttempt(now: number = Date.now()): boolean {
+        if (!this.canAttempt(now)) {
+            return false;
+        }
+        if (this.state === 'half-open') {
+            this.trialStartedAt = now;
+        }
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openUntil = null;
+        this.trialStartedAt = null;
+        this.lastFailure = null;
+    }
+
+    /**
+     * Record a failure and return how long to wait before the next attempt,
+     * or null if the error is fatal and retrying is pointless until reset
+     */
+    recordFailure(error: any, now: number = Date.now()): { classification: ErrorClassification; retryInMs: number | null } {
+        const classification = classifyError(error);
+        this.consecutiveFailures++;
+        this.lastFailure = { ...classification, message: String(error?.message || error), at: new Date(now) };
+        this.trialStartedAt = null;
+
+        if (classification.kind === 'fatal') {
+            this.state = 'open';
+            this.openUntil = null;
+            return { classification, retryInMs: null };
+        }
+
+        const retryInMs = this.backoffDelay();
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            this.state = 'open';
+            this.openUntil = now + retryInMs;
+        }
+        return { classification, retryInMs };
+    }
+
+    reset(): void {
+        this.recordSuccess();
+    }
+
+    /**
+     * One-line summary for status output
+     */
+    describe(now: number = Date.now()): string {
+        const state = this.getState(now);
+        if (state === 'closed' && !this.lastFailure) {
+            return `${this.name}: closed`;
+        }
+
+        const parts = [`${this.name}: ${state}`, `${this.consecutiveFailures} consecutive failures`];
+        if (state === 'open') {
+            parts.push(this.openUntil !== null
+                ? `next attempt ${new Date(this.openUntil).toLocaleTimeString()}`
+                : 'waiting for reconfiguration');
+        }
+        if (this.lastFailure) {
+            parts.push(`last error: ${this.lastFailure.reason} (${this.lastFailure.kind})`);
+        }
+        return parts.join(', ');
+    }
+
+    private isTrialInFlight(now: number): boolean {
+        return this.trialStartedAt !== null && now - this.trialStartedAt < TRIAL_TIMEOUT_MS;
+    }
+
+    /**
+     * Exponential delay with equal jitter: half fixed, half random, so clients do not retry in lockstep
+     */
+    private backoffDelay(): number {
+        const exponential = Math.min(
+            this.options.maxDelayMs,
+            this.options.baseDelayMs * Math.pow(2, this.consecutiveFailures - 1)
+        );
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+}
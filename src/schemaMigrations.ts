@@ -0,0 +1,364 @@
+import { ENROLLMENT_ROLE, ENROLLED_USERS_ROLE } from './postgresDefaults';
+
+export interface SchemaMigration {
+    version: number;
+    name: string;
+    up: (tableName: string) => string;
+}
+
+/**
+ * Row-level security for a table with a user_id column: enrolled logins only reach rows of the user ID they enrolled with,
+ * every other role keeps whatever its table privileges allow
+ */
+function enrolledUserPolicies(table: string): string {
+    return `
+        ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;
+        DROP POLICY IF EXISTS enrolled_user_rows ON ${table};
+        CREATE POLICY enrolled_user_rows ON ${table} TO ${ENROLLED_USERS_ROLE}
+            USING (user_id = enrolled_user_id()) WITH CHECK (user_id = enrolled_user_id());
+        DROP POLICY IF EXISTS other_roles ON ${table};
+        CREATE POLICY other_roles ON ${table}
+            USING (NOT pg_has_role(current_user, '${ENROLLED_USERS_ROLE}', 'MEMBER'))
+            WITH CHECK (NOT pg_has_role(current_user, '${ENROLLED_USERS_ROLE}', 'MEMBER'));`;
+}
+
+/**
+ * Ordered schema migrations for the prompt table and its companion tables.
+ * Every statement is idempotent so deployments created before versioning upgrade in place.
+ * Append new migrations at the end - never edit or reorder applied ones.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 1,
+        name: 'create prompt table',
+        up: (tableName) => `
+        CREATE TABLE IF NOT EXISTS ${tableName} (
+            id BIGSERIAL PRIMARY KEY,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+            timestamp TEXT NOT NULL,
+            prompt TEXT NOT NULL,
+            user_id TEXT
+        );
+
+        -- Create indexes for better query performance
+        CREATE INDEX IF NOT EXISTS idx_${tableName}_created_at ON ${tableName}(created_at);
+        CREATE INDEX IF NOT EXISTS idx_${tableName}_user_id ON ${tableName}(user_id);
+        `
+    },
+    {
+        version: 2,
+        name: 'sync watermarks',
+        up: () => `
+        -- Sync position per user and source database
+        CREATE TABLE IF NOT EXISTS sync_watermarks (
+            user_id TEXT NOT NULL,
+            source_id TEXT NOT NULL,
+            client_rpc_send_time BIGINT NOT NULL,
+            composer_id TEXT NOT NULL,
+            bubble_id TEXT NOT NULL,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+            PRIMARY KEY (user_id, source_id)
+        );
+        `
+    },
+    {
+        version: 3,
+        name: 'prompt natural key',
+        up: (tableName) => `
+        -- Natural key so re-synced or concurrently synced prompts are only stored once
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS composer_id TEXT;
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS bubble_id TEXT;
+        CREATE UNIQUE INDEX IF NOT EXISTS uq_${tableName}_natural_key ON ${tableName}(user_id, composer_id, bubble_id);
+        `
+    },
+    {
+        version: 4,
+        name: 'ai response columns',
+        up: (tableName) => `
+        -- AI response paired with each prompt
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS response TEXT;
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS response_length INTEGER;
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS response_latency_ms BIGINT;
+        `
+    },
+    {
+        version: 5,
+        name: 'composer sessions',
+        up: (tableName) => `
+        -- Composer conversations that synced prompts belong to
+        CREATE TABLE IF NOT EXISTS sessions (
+            user_id TEXT NOT NULL,
+            composer_id TEXT NOT NULL,
+            name TEXT,
+            created_at TIMESTAMP WITH TIME ZONE,
+            status TEXT,
+            conversation_length INTEGER,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+            PRIMARY KEY (user_id, composer_id)
+        );
+
+        -- Prompts synced before the sessions table existed still need a parent row
+        INSERT INTO sessions (user_id, composer_id)
+        SELECT DISTINCT user_id, composer_id FROM ${tableName}
+        WHERE user_id IS NOT NULL AND composer_id IS NOT NULL
+        ON CONFLICT DO NOTHING;
+
+        DO $$
+        BEGIN
+            IF NOT EXISTS (
+                SELECT 1 FROM pg_constraint
+                WHERE conname = 'fk_${tableName}_session' AND conrelid = '${tableName}'::regclass
+            ) THEN
+                ALTER TABLE ${tableName}
+                    ADD CONSTRAINT fk_${tableName}_session
+                    FOREIGN KEY (user_id, composer_id) REFERENCES sessions(user_id, composer_id);
+            END IF;
+        END $$;
+        `
+    },
+    {
+        version: 6,
+        name: 'enrollment tokens',
+        up: () => `
+        -- Per-developer enrollment tokens, stored as SHA-256 hashes and bound to a user on first use
+        CREATE TABLE IF NOT EXISTS enrollment_tokens (
+            token_hash TEXT PRIMARY KEY,
+            user_id TEXT,
+            note TEXT,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+            expires_at TIMESTAMP WITH TIME ZONE,
+            redeemed_at TIMESTAMP WITH TIME ZONE,
+            revoked_at TIMESTAMP WITH TIME ZONE
+        );
+        `
+    },
+    {
+        version: 7,
+        name: 'prompt source',
+        up: (tableName) => `
+        -- Source database each prompt was synced from, so one user can sync several Cursor installs
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS source_id TEXT;
+        CREATE INDEX IF NOT EXISTS idx_${tableName}_user_source ON ${tableName}(user_id, source_id);
+        `
+    },
+    {
+        version: 8,
+        name: 'redaction findings',
+        up: (tableName) => `
+        -- Redaction rules that fired on each prompt and how often; the matched values are never stored
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS redactions JSONB;
+        `
+    },
+    {
+        version: 9,
+        name: 'privacy levels',
+        up: (tableName) => `
+        -- How much content each row carries (full, truncated, hashed, metadata) and sizes that survive reduction
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS privacy_level TEXT;
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS prompt_length INTEGER;
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS prompt_token_estimate INTEGER;
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS response_token_estimate INTEGER;
+        ALTER TABLE ${tableName} ALTER COLUMN prompt DROP NOT NULL;
+
+        -- Rows synced before privacy levels existed carry full text
+        UPDATE ${tableName}
+        SET privacy_level = 'full',
+            prompt_length = COALESCE(prompt_length, LENGTH(prompt)),
+            prompt_token_estimate = COALESCE(prompt_token_estimate, CEIL(LENGTH(prompt) / 4.0)::int)
+        WHERE privacy_level IS NULL;
+        `
+    },
+    {
+        version: 10,
+        name: 'erasure audit',
+        up: () => `
+        -- One row per personal data erasure; the user is identified by a SHA-256 hash only
+        CREATE TABLE IF NOT EXISTS data_erasure_audit (
+            id BIGSERIAL PRIMARY KEY,
+            user_id_hash TEXT NOT NULL,
+            erased_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+            row_counts JSONB NOT NULL
+        );
+        `
+    },
+    {
+        version: 11,
+        name: 'watermark per prompt table',
+        up: (tableName) => `
+        -- A watermark belongs to one prompt table, so switching tables backfills the new one from scratch
+        ALTER TABLE sync_watermarks ADD COLUMN IF NOT EXISTS table_name TEXT;
+
+        -- Older watermarks belong to this table if it holds prompts of that user; the rest are dropped,
+        -- which only costs a full resync that the natural key deduplicates
+        UPDATE sync_watermarks w
+        SET table_name = '${tableName}'
+        WHERE w.table_name IS NULL
+          AND EXISTS (SELECT 1 FROM ${tableName} p WHERE p.user_id = w.user_id);
+        DELETE FROM sync_watermarks WHERE table_name IS NULL;
+        ALTER TABLE sync_watermarks ALTER COLUMN table_name SET NOT NULL;
+
+        DO $$
+        BEGIN
+            IF NOT EXISTS (
+                SELECT 1 FROM pg_index i
+                JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+                WHERE i.indrelid = 'sync_watermarks'::regclass AND i.indisprimary AND a.attname = 'table_name'
+            ) THEN
+                ALTER TABLE sync_watermarks DROP CONSTRAINT IF EXISTS sync_watermarks_pkey;
+                ALTER TABLE sync_watermarks ADD PRIMARY KEY (user_id, source_id, table_name);
+            END IF;
+        END $$;
+        `
+    },
+    {
+        version: 12,
+        name: 'server-side enrollment',
+        up: (tableName) => `
+        -- Enrolled users log in as their own role, a member of ${ENROLLED_USERS_ROLE}, and only see their own rows.
+        -- No login is created here: admins grant ${ENROLLMENT_ROLE} to the login that clients redeem tokens through.
+        DO $$
+        BEGIN
+            IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = '${ENROLLED_USERS_ROLE}') THEN
+                CREATE ROLE ${ENROLLED_USERS_ROLE} NOLOGIN;
+            END IF;
+            IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = '${ENROLLMENT_ROLE}') THEN
+                CREATE ROLE ${ENROLLMENT_ROLE} NOLOGIN;
+            END IF;
+            EXECUTE format('GRANT USAGE ON SCHEMA %I TO ${ENROLLED_USERS_ROLE}, ${ENROLLMENT_ROLE}', current_schema());
+            EXECUTE format('GRANT USAGE ON ALL SEQUENCES IN SCHEMA %I TO ${ENROLLED_USERS_ROLE}', current_schema());
+        END $$;
+
+        -- Which login belongs to which user ID; written only by redeem_enrollment_token
+        CREATE TABLE IF NOT EXISTS enrolled_logins (
+            login_role TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+        );
+
+        -- Every redemption attempt, so repeated failures lock out further guesses
+        CREATE TABLE IF NOT EXISTS enrollment_attempts (
+            id BIGSERIAL PRIMARY KEY,
+            login_role TEXT NOT NULL,
+            user_id TEXT,
+            client_addr INET,
+            succeeded BOOLEAN NOT NULL,
+            attempted_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_enrollment_attempts_attempted_at ON enrollment_attempts(attempted_at);
+
+        CREATE OR REPLACE FUNCTION enrolled_user_id()
+        RETURNS TEXT
+        LANGUAGE sql
+        STABLE
+        SECURITY DEFINER
+        SET search_path FROM CURRENT
+        AS $fn$
+            SELECT user_id FROM enrolled_logins WHERE login_role = session_user
+        $fn$;
+
+        GRANT SELECT, INSERT, UPDATE, DELETE ON ${tableName}, sessions, sync_watermarks TO ${ENROLLED_USERS_ROLE};
+        -- Erasures read back their audit ID and time, nothing else of the audit trail
+        GRANT INSERT, SELECT (id, erased_at) ON data_erasure_audit TO ${ENROLLED_USERS_ROLE};
+        GRANT SELECT ON schema_migrations TO ${ENROLLED_USERS_ROLE};
+        ${[tableName, 'sessions', 'sync_watermarks'].map(enrolledUserPolicies).join('\n')}
+
+        -- Checks the token and binds it to the user on first use, then (re)issues that user's login with a fresh password.
+        -- Returns no row when the token is unknown, expired, revoked or bound to another user.
+        -- After 5 failures for a user ID or client, or 50 overall, within 15 minutes every attempt is refused.
+        CREATE OR REPLACE FUNCTION redeem_enrollment_token(p_token TEXT, p_user_id TEXT)
+        RETURNS TABLE (login_user TEXT, login_password TEXT)
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path FROM CURRENT
+        AS $fn$
+        DECLARE
+            v_role TEXT := 'cursor_prompt_sync_' || left(md5(p_user_id), 24);
+            v_password TEXT := encode(sha256(convert_to(gen_random_uuid()::text || gen_random_uuid()::text, 'UTF8')), 'hex');
+        BEGIN
+            -- One redemption at a time, so concurrent guesses cannot slip past the lockout count
+            PERFORM pg_advisory_xact_lock(hashtext('redeem_enrollment_token'));
+            IF (SELECT COUNT(*) FROM enrollment_attempts
+                WHERE NOT succeeded AND attempted_at > NOW() - INTERVAL '15 minutes'
+                  AND (user_id = p_user_id OR client_addr IS NOT DISTINCT FROM inet_client_addr())) >= 5
+               OR (SELECT COUNT(*) FROM enrollment_attempts
+                   WHERE NOT succeeded AND attempted_at > NOW() - INTERVAL '15 minutes') >= 50 THEN
+                RAISE EXCEPTION 'Too many failed enrollment attempts - try again in 15 minutes';
+            END IF;
+
+            UPDATE enrollment_tokens
+            SET user_id = COALESCE(user_id, p_user_id), redeemed_at = COALESCE(redeemed_at, NOW())
+            WHERE token_hash = encode(sha256(convert_to(p_token, 'UTF8')), 'hex')
+              AND revoked_at IS NULL
+              AND (expires_at IS NULL OR expires_at > NOW())
+              AND (user_id IS NULL OR user_id = p_user_id);
+            IF NOT FOUND THEN
+                INSERT INTO enrollment_attempts (login_role, user_id, client_addr, succeeded)
+                VALUES (session_user, p_user_id, inet_client_addr(), false);
+                RETURN;
+            END IF;
+            INSERT INTO enrollment_attempts (login_role, user_id, client_addr, succeeded)
+            VALUES (session_user, p_user_id, inet_client_addr(), true);
+
+            IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = v_role) THEN
+                EXECUTE format('ALTER ROLE %I LOGIN PASSWORD %L', v_role, v_password);
+            ELSE
+                EXECUTE format('CREATE ROLE %I LOGIN PASSWORD %L IN ROLE ${ENROLLED_USERS_ROLE}', v_role, v_password);
+            END IF;
+            INSERT INTO enrolled_logins (login_role, user_id)
+            VALUES (v_role, p_user_id)
+            ON CONFLICT (login_role) DO UPDATE SET user_id = EXCLUDED.user_id, enrolled_at = NOW();
+
+            login_user := v_role;
+            login_password := v_password;
+            RETURN NEXT;
+        END
+        $fn$;
+
+        -- Enrolled logins cannot read enrollment_tokens; these act on the caller's own tokens only
+        CREATE OR REPLACE FUNCTION my_enrollment_tokens()
+        RETURNS SETOF enrollment_tokens
+        LANGUAGE sql
+        STABLE
+        SECURITY DEFINER
+        SET search_path FROM CURRENT
+        AS $fn$
+            SELECT * FROM enrollment_tokens WHERE user_id = enrolled_user_id() ORDER BY created_at
+        $fn$;
+
+        -- Deletes the caller's tokens and disables their login once the transaction commits
+        CREATE OR REPLACE FUNCTION forget_my_enrollment()
+        RETURNS INTEGER
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path FROM CURRENT
+        AS $fn$
+        DECLARE
+            v_user TEXT := enrolled_user_id();
+            v_count INTEGER;
+        BEGIN
+            IF v_user IS NULL THEN
+                RAISE EXCEPTION 'The current login is not an enrolled login';
+            END IF;
+            DELETE FROM enrollment_tokens WHERE user_id = v_user;
+            GET DIAGNOSTICS v_count = ROW_COUNT;
+            EXECUTE format('ALTER ROLE %I NOLOGIN PASSWORD NULL', session_user);
+            RETURN v_count;
+        END
+        $fn$;
+
+        REVOKE ALL ON FUNCTION redeem_enrollment_token(TEXT, TEXT) FROM PUBLIC;
+        REVOKE ALL ON FUNCTION my_enrollment_tokens() FROM PUBLIC;
+        REVOKE ALL ON FUNCTION forget_my_enrollment() FROM PUBLIC;
+        GRANT EXECUTE ON FUNCTION redeem_enrollment_token(TEXT, TEXT) TO ${ENROLLMENT_ROLE};
+        GRANT EXECUTE ON FUNCTION my_enrollment_tokens(), forget_my_enrollment() TO ${ENROLLED_USERS_ROLE};
+        `
+    }
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Oldest schema this client works with. Roles that cannot migrate connect to anything at or above it,
+ * so raise it only when the code starts to rely on a newer migration.
+ */
+export const MINIMUM_SCHEMA_VERSION = 12;
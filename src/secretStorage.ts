@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 
 let extensionContext: vscode.ExtensionContext | null = null;
 
 const DATABASE_PATH_SECRET = 'cursorSqlRunner.databasePath';
+const DATABASE_SOURCES_SECRET = 'cursorSqlRunner.databaseSources';
 const USER_ID_SECRET = 'cursorSqlRunner.userId';
-const PASSWORD_SECRET = 'cursorSqlRunner.password';
+const LEGACY_PASSWORD_SECRET = 'cursorSqlRunner.password';
+const ENROLLMENT_TOKEN_SECRET = 'cursorSqlRunner.enrollmentToken';
+const POSTGRES_PASSWORD_SECRET = 'cursorSqlRunner.postgresPassword';
+const POSTGRES_CONNECTION_STRING_SECRET = 'cursorSqlRunner.postgresConnectionString';
+const PRIVACY_SALT_SECRET = 'cursorSqlRunner.privacySalt';
 
 function requireContext(): vscode.ExtensionContext {
     if (!extensionContext) {
@@ -41,6 +47,39 @@ export async function setDatabasePathSecret(value: string): Promise<void> {
     await context.secrets.store(DATABASE_PATH_SECRET, value);
 }
 
+/**
+ * Every Cursor database to sync. Falls back to the single database path for setups made before sources could be chosen.
+ */
+export async function getDatabaseSourcesSecret(): Promise<string[]> {
+    const context = requireContext();
+    const stored = await context.secrets.get(DATABASE_SOURCES_SECRET);
+    if (stored) {
+        try {
+            const sources = JSON.parse(stored);
+            if (Array.isArray(sources)) {
+                return sources.filter(source => typeof source === 'string');
+            }
+        } catch {
+            // Fall through to the single path
+        }
+    }
+
+    const databasePath = await getDatabasePathSecret();
+    return databasePath ? [databasePath] : [];
+}
+
+/**
+ * Store the databases to sync; the first one also becomes the database path used for queries and email detection.
+ * An empty list is stored as such, so removing every source does not fall back to the single path.
+ */
+export async function setDatabaseSourcesSecret(sources: string[]): Promise<void> {
+    const context = requireContext();
+    await context.secrets.store(DATABASE_SOURCES_SECRET, JSON.stringify(sources));
+    if (sources.length > 0) {
+        await setDatabasePathSecret(sources[0]);
+    }
+}
+
 export async function getUserIdSecret(): Promise<string | undefined> {
     const context = requireContext();
     const existing = await context.secrets.get(USER_ID_SECRET);
@@ -64,27 +103,73 @@ export async function setUserIdSecret(value: string): Promise<void> {
     await context.secrets.store(USER_ID_SECRET, value);
 }
 
-export async function getPasswordSecret(): Promise<string | undefined> {
+export async function getEnrollmentTokenSecret(): Promise<string | undefined> {
     const context = requireContext();
-    const existing = await context.secrets.get(PASSWORD_SECRET);
-    if (existing) {
-        return existing;
-    }
 
+    // The shared extension password is no longer accepted anywhere, so drop it
+    await context.secrets.delete(LEGACY_PASSWORD_SECRET);
     const config = vscode.workspace.getConfiguration('cursorSqlRunner');
-    const legacyValue = config.get<string>('password', '');
-    if (legacyValue) {
-        await setPasswordSecret(legacyValue);
+    if (config.get<string>('password', '')) {
         await config.update('password', undefined, vscode.ConfigurationTarget.Global);
-        return legacyValue;
     }
 
-    return undefined;
+    return await context.secrets.get(ENROLLMENT_TOKEN_SECRET);
 }
 
-export async function setPasswordSecret(value: string): Promise<void> {
+export async function setEnrollmentTokenSecret(value: string | undefined): Promise<void> {
     const context = requireContext();
-    await context.secrets.store(PASSWORD_SECRET, value);
+    if (value) {
+        await context.secrets.store(ENROLLMENT_TOKEN_SECRET, value);
+    } else {
+        await context.secrets.delete(ENROLLMENT_TOKEN_SECRET);
+    }
+}
+
+export async function getPostgresPasswordSecret(): Promise<string | undefined> {
+    const context = requireContext();
+    return await context.secrets.get(POSTGRES_PASSWORD_SECRET);
+}
+
+export async function setPostgresPasswordSecret(value: string): Promise<void> {
+    const context = requireContext();
+    await context.secrets.store(POSTGRES_PASSWORD_SECRET, value);
+}
+
+export async function getPostgresConnectionStringSecret(): Promise<string | undefined> {
+    const context = requireContext();
+    return await context.secrets.get(POSTGRES_CONNECTION_STRING_SECRET);
+}
+
+export async function setPostgresConnectionStringSecret(value: string | undefined): Promise<void> {
+    const context = requireContext();
+    if (value) {
+        await context.secrets.store(POSTGRES_CONNECTION_STRING_SECRET, value);
+    } else {
+        await context.secrets.delete(POSTGRES_CONNECTION_STRING_SECRET);
+    }
+}
+
+/**
+ * True when the user has their own PostgreSQL role stored, either as a password or a connection string
+ */
+export async function hasPostgresRoleSecret(): Promise<boolean> {
+    const context = requireContext();
+    return !!(await context.secrets.get(POSTGRES_PASSWORD_SECRET) || await context.secrets.get(POSTGRES_CONNECTION_STRING_SECRET));
+}
+
+/**
+ * Salt for hashed privacy mode, generated on first use. Losing it only means new hashes stop matching old ones.
+ */
+export async function getPrivacySaltSecret(): Promise<string> {
+    const context = requireContext();
+    const existing = await context.secrets.get(PRIVACY_SALT_SECRET);
+    if (existing) {
+        return existing;
+    }
+
+    const salt = crypto.randomBytes(32).toString('hex');
+    await context.secrets.store(PRIVACY_SALT_SECRET, salt);
+    return salt;
 }
 
 export async function clearAllSecrets(): Promise<void> {
@@ -93,8 +178,12 @@ export async function clearAllSecrets(): Promise<void> {
     
     // Clear all secrets
     await context.secrets.delete(DATABASE_PATH_SECRET);
+    await context.secrets.delete(DATABASE_SOURCES_SECRET);
     await context.secrets.delete(USER_ID_SECRET);
-    await context.secrets.delete(PASSWORD_SECRET);
+    await context.secrets.delete(LEGACY_PASSWORD_SECRET);
+    await context.secrets.delete(ENROLLMENT_TOKEN_SECRET);
+    await context.secrets.delete(POSTGRES_PASSWORD_SECRET);
+    await context.secrets.delete(POSTGRES_CONNECTION_STRING_SECRET);
     
     // Clear legacy settings if they exist
     const config = vscode.workspace.getConfiguration('cursorSqlRunner');
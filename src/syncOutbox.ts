@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncWatermark, compareWatermarks } from './syncWatermark';
+
+/**
+ * One extracted batch waiting to be stored in PostgreSQL
+ */
+export interface OutboxBatch {
+    id: string;
+    sourceId: string;
+    createdAt: string;
+    /** Watermark of the last row in the batch */
+    position: SyncWatermark | null;
+    rows: any[];
+}
+
+export interface OutboxSummary {
+    batches: number;
+    prompts: number;
+    bytes: number;
+    maxBytes: number;
+    oldestAt: string | null;
+}
+
+interface OutboxEntry {
+    file: string;
+    /** Null for batches queued before the source was part of the file name */
+    sourceId: string | null;
+    prompts: number;
+    bytes: number;
+}
+
+const POSITIONS_FILE = 'positions.json';
+const LOCK_FILE = 'outbox.lock';
+
+// Every operation holds the lock only for a few file writes; an older lock was left behind by a crashed window
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Durable queue of extracted batches, kept as one JSON file per batch under the extension's global storage.
+ * File names sort in insertion order, so batches drain in the order they were extracted.
+ * Also remembers the last extracted position per source, so offline runs do not re-extract queued prompts.
+ * All windows share the directory: every operation takes a lock file and re-reads the queue from disk.
+ */
+export class SyncOutbox {
+    private readonly directory: string;
+    private entries: OutboxEntry[] = [];
+    private positions: Record<string, SyncWatermark> = {};
+    private sequence = 0;
+
+    constructor(storageDirectory: string, private maxBytes: number) {
+        this.directory = path.join(storageDirectory, 'outbox');
+        fs.mkdirSync(this.directory, { recursive: true });
+        this.withLock(() => undefined);
+    }
+
+    setMaxBytes(maxBytes: number): void {
+        this.maxBytes = maxBytes;
+    }
+
+    /**
+     * Queue a batch. Returns false without writing anything if the batch would exceed the size cap;
+     * the caller keeps its position so the rows are extracted again once the outbox has drained.
+     */
+    enqueue(sourceId: string, rows: any[], position: SyncWatermark | null): boolean {
+        return this.withLock(() => {
+            let id: string;
+            do {
+                id = `${Date.now().toString().padStart(15, '0')}-${(this.sequence++ % 1000000).toString().padStart(6, '0')}`;
+            } while (this.entries.some(entry => entry.file.startsWith(`${id}-`)));
+
+            const batch: OutboxBatch = { id, sourceId, createdAt: new Date().toISOString(), position, rows };
+            const content = JSON.stringify(batch);
+            const bytes = Buffer.byteLength(content);
+
+            if (this.summarize().bytes + bytes > this.maxBytes) {
+                return false;
+            }
+
+            const file = `${id}-${sourceId}-${rows.length}.json`;
+            this.writeAtomic(path.join(this.directory, file), content);
+            this.entries.push({ file, sourceId, prompts: rows.length, bytes });
+
+            if (position) {
+                this.advancePosition(sourceId, position);
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Oldest queued batch, or null when the outbox is empty
+     */
+    peek(): OutboxBatch | null {
+        return this.withLock(() => {
+            while (this.entries.length > 0) {
+                const entry = this.entries[0];
+                try {
+                    return JSON.parse(fs.readFileSync(path.join(this.directory, entry.file), 'utf8')) as OutboxBatch;
+                } catch (error: any) {
+                    if (error.code === 'ENOENT') {
+                        // Delivered by another window in the meantime
+                        this.entries.shift();
+                        continue;
+                    }
+                    // A batch that cannot be read back would block the queue forever
+                    this.quarantine(entry);
+                }
+            }
+            return null;
+        });
+    }
+
+    /**
+     * Remove a batch once it has been stored
+     */
+    remove(batchId: string): void {
+        this.withLock(() => {
+            const entry = this.entries.find(candidate => candidate.file.startsWith(`${batchId}-`));
+            if (entry) {
+                fs.rmSync(path.join(this.directory, entry.file), { force: true });
+                this.entries.splice(this.entries.indexOf(entry), 1);
+            }
+        });
+    }
+
+    /**
+     * Last extracted position for a source, whether it was stored directly or queued
+     */
+    getPosition(sourceId: string): SyncWatermark | null {
+        return this.withLock(() => this.positions[sourceId] || null);
+    }
+
+    recordPosition(sourceId: string, position: SyncWatermark): void {
+        this.withLock(() => this.advancePosition(sourceId, position));
+    }
+
+    /**
+     * Drop every queued batch and all recorded positions. Returns the number of prompts dropped.
+     */
+    clear(): number {
+        return this.withLock(() => {
+            const prompts = this.summarize().prompts;
+            this.entries.forEach(entry => fs.rmSync(path.join(this.directory, entry.file), { force: true }));
+            this.entries = [];
+            this.positions = {};
+            fs.rmSync(path.join(this.directory, POSITIONS_FILE), { force: true });
+            return prompts;
+        });
+    }
+
+    getSummary(): OutboxSummary {
+        return this.withLock(() => this.summarize());
+    }
+
+    private summarize(): OutboxSummary {
+        return {
+            batches: this.entries.length,
+            prompts: this.entries.reduce((sum, entry) => sum + entry.prompts, 0),
+            bytes: this.entries.reduce((sum, entry) => sum + entry.bytes, 0),
+            maxBytes: this.maxBytes,
+            oldestAt: this.entries.length > 0 ? new Date(parseInt(this.entries[0].file, 10)).toISOString() : null
+        };
+    }
+
+    private advancePosition(sourceId: string, position: SyncWatermark): void {
+        const current = this.positions[sourceId];
+        if (current && compareWatermarks(position, current) <= 0) {
+            return;
+        }
+        this.positions[sourceId] = position;
+        this.writePositions();
+    }
+
+    /**
+     * Run an operation on the queue as it is on disk, with no other window changing it in between
+     */
+    private withLock<T>(operation: () => T): T {
+        const lockPath = path.join(this.directory, LOCK_FILE);
+        for (;;) {
+            try {
+                fs.writeFileSync(lockPath, `${process.pid}`, { flag: 'wx' });
+                break;
+            } catch (error: any) {
+                if (error.code !== 'EEXIST') {
+                    throw error;
+                }
+                try {
+                    if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+                        fs.rmSync(lockPath, { force: true });
+                        continue;
+                    }
+                } catch {
+                    // Released while we looked at it
+                    continue;
+                }
+                Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+            }
+        }
+
+        try {
+            this.load();
+            return operation();
+        } finally {
+            fs.rmSync(lockPath, { force: true });
+        }
+    }
+
+    private load(): void {
+        this.entries = [];
+        for (const file of fs.readdirSync(this.directory).sort()) {
+            // <time>-<sequence>-<source>-<prompts>.json, or <time>-<sequence>-<prompts>.json from older versions
+            const match = /^\d+-\d+-(?:([0-9a-f]+)-)?(\d+)\.json$/.exec(file);
+            if (!match) {
+                continue;
+            }
+            try {
+                this.entries.push({
+                    file,
+                    sourceId: match[1] || null,
+                    prompts: parseInt(match[2], 10),
+                    bytes: fs.statSync(path.join(this.directory, file)).size
+                });
+            } catch {
+                // Removed by another window between listing and stat
+            }
+        }
+
+        try {
+            this.positions = JSON.parse(fs.readFileSync(path.join(this.directory, POSITIONS_FILE), 'utf8'));
+        } catch {
+            this.positions = {};
+        }
+    }
+
+    /**
+     * Set an unreadable batch aside. Its rows are lost from the queue, so the later batches of its source are dropped
+     * and the source's position forgotten: the next online sync extracts the whole range again from the
+     * PostgreSQL watermark, which never moved past this batch because batches are stored in order.
+     */
+    private quarantine(entry: OutboxEntry): void {
+        const source = path.join(this.directory, entry.file);
+        try {
+            fs.renameSync(source, `${source}.corrupt`);
+        } catch {
+            // Already gone
+        }
+
+        // Older file names do not say which source a batch came from, so every source starts over
+        const affected = (candidate: OutboxEntry) => entry.sourceId === null || candidate.sourceId === entry.sourceId;
+        this.entries.slice(1).filter(affected).forEach(later => fs.rmSync(path.join(this.directory, later.file), { force: true }));
+        this.entries = this.entries.slice(1).filter(later => !affected(later));
+
+        if (entry.sourceId === null) {
+            this.positions = {};
+        } else {
+            delete this.positions[entry.sourceId];
+        }
+        this.writePositions();
+    }
+
+    private writePositions(): void {
+        this.writeAtomic(path.join(this.directory, POSITIONS_FILE), JSON.stringify(this.positions));
+    }
+
+    private writeAtomic(filePath: string, content: string): void {
+        const temporary = `${filePath}.tmp`;
+        fs.writeFileSync(temporary, content, 'utf8');
+        fs.renameSync(temporary, filePath);
+    }
+}
@@ -0,0 +1,65 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+/**
+ * Position of the last prompt that was synced for a user and source database.
+ * Bubbles are ordered by (clientRpcSendTime, composerId, bubbleId), so two prompts
+ * sent in the same millisecond still have a well-defined order.
+ */
+export interface SyncWatermark {
+    clientRpcSendTime: number;
+    composerId: string;
+    bubbleId: string;
+}
+
+/**
+ * Stable identifier for a source database, derived from its normalized path
+ */
+export function getSourceId(databasePath: string): string {
+    let normalized = path.resolve(databasePath);
+    if (process.platform === 'win32') {
+        normalized = normalized.toLowerCase();
+    }
+    return crypto.createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+}
+
+/**
+ * Compare two watermarks: negative if a comes before b, positive if after, 0 if equal
+ */
+export function compareWatermarks(a: SyncWatermark, b: SyncWatermark): number {
+    if (a.clientRpcSendTime !== b.clientRpcSendTime) {
+        return a.clientRpcSendTime < b.clientRpcSendTime ? -1 : 1;
+    }
+    if (a.composerId !== b.composerId) {
+        return a.composerId < b.composerId ? -1 : 1;
+    }
+    if (a.bubbleId !== b.bubbleId) {
+        return a.bubbleId < b.bubbleId ? -1 : 1;
+    }
+    return 0;
+}
+
+/**
+ * Build the watermark for the last row of an extraction result (rows are sorted ascending)
+ */
+export function watermarkFromRows(rows: any[]): SyncWatermark | null {
+    let latest: SyncWatermark | null = null;
+
+    for (const row of rows) {
+        if (row.client_rpc_send_time === null || row.client_rpc_send_time === undefined) {
+            continue;
+        }
+
+        const candidate: SyncWatermark = {
+            clientRpcSendTime: Number(row.client_rpc_send_time),
+            composerId: String(row.composer_id ?? ''),
+            bubbleId: String(row.bubble_id ?? '')
+        };
+
+        if (!latest || compareWatermarks(candidate, latest) > 0) {
+            latest = candidate;
+        }
+    }
+
+    return latest;
+}
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { applyPrivacyLevel } from '../privacyLevel';
+
+const row = () => ({ prompt: 'p'.repeat(300), response: 'answer', session_name: 'first prompt' });
+
+describe('applyPrivacyLevel', () => {
+    it('keeps the text at full and records sizes', () => {
+        const reduced: any = row();
+        applyPrivacyLevel(reduced, 'full', 'salt');
+        assert.strictEqual(reduced.prompt, 'p'.repeat(300));
+        assert.strictEqual(reduced.prompt_length, 300);
+        assert.strictEqual(reduced.prompt_token_estimate, 75);
+        assert.strictEqual(reduced.privacy_level, 'full');
+    });
+
+    it('truncates long text but keeps the original length', () => {
+        const reduced: any = row();
+        applyPrivacyLevel(reduced, 'truncated', 'salt');
+        assert.strictEqual(reduced.prompt, `${'p'.repeat(200)}…`);
+        assert.strictEqual(reduced.response, 'answer');
+        assert.strictEqual(reduced.prompt_length, 300);
+    });
+
+    it('hashes text with the salt and drops the session name', () => {
+        const first: any = row();
+        const second: any = row();
+        const otherSalt: any = row();
+        applyPrivacyLevel(first, 'hashed', 'salt');
+        applyPrivacyLevel(second, 'hashed', 'salt');
+        applyPrivacyLevel(otherSalt, 'hashed', 'pepper');
+        assert.match(first.prompt, /^hmac-sha256:[0-9a-f]{64}$/);
+        assert.strictEqual(first.prompt, second.prompt);
+        assert.notStrictEqual(first.prompt, otherSalt.prompt);
+        assert.strictEqual(first.session_name, null);
+    });
+
+    it('keeps only sizes at metadata', () => {
+        const reduced: any = row();
+        applyPrivacyLevel(reduced, 'metadata', 'salt');
+        assert.strictEqual(reduced.prompt, null);
+        assert.strictEqual(reduced.response, null);
+        assert.strictEqual(reduced.session_name, null);
+        assert.strictEqual(reduced.response_length, 6);
+    });
+
+    it('never loosens a row that is already at a stricter level', () => {
+        const reduced: any = row();
+        applyPrivacyLevel(reduced, 'metadata', 'salt');
+        applyPrivacyLevel(reduced, 'full', 'salt');
+        assert.strictEqual(reduced.prompt, null);
+        assert.strictEqual(reduced.privacy_level, 'metadata');
+    });
+});
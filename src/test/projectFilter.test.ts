@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ProjectFilter, ProjectRule, parseProjectRule, normalizeRemote } from '../projectFilter';
+
+const rules = (...entries: string[]): ProjectRule[] => entries.map(entry => parseProjectRule(entry)!);
+
+describe('glob rules', () => {
+    const filter = new ProjectFilter([], rules('glob:**/clients/**'));
+
+    it('match a directory at any depth', () => {
+        assert.strictEqual(filter.decide({ paths: ['/home/me/clients/acme/app.ts'], remotes: [] }).included, false);
+        assert.strictEqual(filter.decide({ paths: ['clients/acme/app.ts'], remotes: [] }).included, false);
+    });
+
+    it('do not match a directory that only ends with the name', () => {
+        assert.strictEqual(filter.decide({ paths: ['/home/me/myclients/app.ts'], remotes: [] }).included, true);
+    });
+
+    it('keep * within one path segment', () => {
+        const single = new ProjectFilter([], rules('glob:/work/*/secret.txt'));
+        assert.strictEqual(single.decide({ paths: ['/work/a/secret.txt'], remotes: [] }).included, false);
+        assert.strictEqual(single.decide({ paths: ['/work/a/b/secret.txt'], remotes: [] }).included, true);
+    });
+});
+
+describe('ProjectFilter.decide', () => {
+    const unknown = { paths: [], remotes: [] };
+
+    it('lets exclude rules win over include rules', () => {
+        const filter = new ProjectFilter(rules('glob:/work/**'), rules('glob:/work/secret/**'));
+        const decision = filter.decide({ paths: ['/work/secret/a.ts'], remotes: [] });
+        assert.strictEqual(decision.included, false);
+        assert.strictEqual(decision.reason, 'matches an exclude rule');
+    });
+
+    it('fails closed for an unknown project when exclude rules are set', () => {
+        const decision = new ProjectFilter([], rules('glob:**/clients/**')).decide(unknown);
+        assert.strictEqual(decision.included, false);
+        assert.strictEqual(decision.reason, 'project unknown and exclude rules are set');
+    });
+
+    it('excludes an unknown project when include rules are set', () => {
+        assert.strictEqual(new ProjectFilter(rules('glob:/work/**'), []).decide(unknown).included, false);
+    });
+
+    it('includes everything without rules', () => {
+        assert.strictEqual(new ProjectFilter([], []).decide(unknown).included, true);
+    });
+});
+
+describe('normalizeRemote', () => {
+    it('reduces every remote URL form to host/owner/repo', () => {
+        assert.strictEqual(normalizeRemote('git@github.com:acme/app.git'), 'github.com/acme/app');
+        assert.strictEqual(normalizeRemote('https://user@github.com/acme/app.git'), 'github.com/acme/app');
+        assert.strictEqual(normalizeRemote('ssh://git@github.com/acme/app'), 'github.com/acme/app');
+    });
+});
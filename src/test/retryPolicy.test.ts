@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CircuitBreaker } from '../retryPolicy';
+
+const options = { failureThreshold: 2, baseDelayMs: 1000, maxDelayMs: 8000 };
+const networkError = () => Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+
+describe('CircuitBreaker', () => {
+    it('opens after the failure threshold and half-opens once the delay has passed', () => {
+        const breaker = new CircuitBreaker('test', options);
+        breaker.recordFailure(networkError(), 0);
+        assert.strictEqual(breaker.getState(0), 'closed');
+
+        const { retryInMs } = breaker.recordFailure(networkError(), 0);
+        assert.strictEqual(breaker.getState(0), 'open');
+        assert.strictEqual(breaker.canAttempt(0), false);
+        assert.strictEqual(breaker.getState(retryInMs!), 'half-open');
+    });
+
+    it('lets a single trial through while half-open', () => {
+        const breaker = new CircuitBreaker('test', options);
+        breaker.recordFailure(networkError(), 0);
+        const { retryInMs } = breaker.recordFailure(networkError(), 0);
+
+        assert.strictEqual(breaker.beginAttempt(retryInMs!), true);
+        assert.strictEqual(breaker.beginAttempt(retryInMs!), false);
+        // A trial that never reports back is given up
+        assert.strictEqual(breaker.beginAttempt(retryInMs! + 5 * 60 * 1000), true);
+    });
+
+    it('closes on success and reopens when the trial fails', () => {
+        const breaker = new CircuitBreaker('test', options);
+        breaker.recordFailure(networkError(), 0);
+        const { retryInMs } = breaker.recordFailure(networkError(), 0);
+
+        breaker.beginAttempt(retryInMs!);
+        breaker.recordFailure(networkError(), retryInMs!);
+        assert.strictEqual(breaker.getState(retryInMs!), 'open');
+
+        breaker.reset();
+        assert.strictEqual(breaker.getState(), 'closed');
+        assert.strictEqual(breaker.canAttempt(), true);
+    });
+
+    it('stays open after a fatal error until reset', () => {
+        const breaker = new CircuitBreaker('test', options);
+        const { retryInMs } = breaker.recordFailure(Object.assign(new Error('password authentication failed'), { code: '28P01' }), 0);
+        assert.strictEqual(retryInMs, null);
+        assert.strictEqual(breaker.canAttempt(Number.MAX_SAFE_INTEGER), false);
+    });
+
+    it('keeps the backoff delay within the configured maximum', () => {
+        const breaker = new CircuitBreaker('test', options);
+        for (let i = 0; i < 10; i++) {
+            const { retryInMs } = breaker.recordFailure(networkError(), 0);
+            assert.ok(retryInMs! <= options.maxDelayMs);
+        }
+    });
+});
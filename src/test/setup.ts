@@ -0,0 +1,10 @@
+/**
+ * Preloaded by npm test so modules that import vscode load outside the extension host
+ */
+const Module = require('module');
+const stubPath = require.resolve('./vscodeStub');
+const resolveFilename = Module._resolveFilename;
+
+Module._resolveFilename = function (this: any, request: string, ...rest: any[]) {
+    return request === 'vscode' ? stubPath : resolveFilename.call(this, request, ...rest);
+};
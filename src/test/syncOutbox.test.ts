@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { SyncOutbox } from '../syncOutbox';
+import { SyncWatermark } from '../syncWatermark';
+
+const position = (clientRpcSendTime: number): SyncWatermark => ({ clientRpcSendTime, composerId: 'c', bubbleId: 'b' });
+
+/** Runs a test against its own storage directory, removed afterwards */
+const inDirectory = (run: (directory: string) => void) => () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-outbox-'));
+    try {
+        run(directory);
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+};
+
+describe('SyncOutbox', () => {
+    it('drains batches in the order they were queued', inDirectory(directory => {
+        const outbox = new SyncOutbox(directory, 1024 * 1024);
+        for (let i = 1; i <= 3; i++) {
+            outbox.enqueue('a1', [{ n: i }], position(i));
+        }
+
+        const drained: number[] = [];
+        for (let batch = outbox.peek(); batch; batch = outbox.peek()) {
+            drained.push(batch.rows[0].n);
+            outbox.remove(batch.id);
+        }
+        assert.deepStrictEqual(drained, [1, 2, 3]);
+    }));
+
+    it('shares batches and positions between instances on the same directory', inDirectory(directory => {
+        const first = new SyncOutbox(directory, 1024 * 1024);
+        const second = new SyncOutbox(directory, 1024 * 1024);
+        first.enqueue('a1', [{ n: 1 }], position(1));
+        second.enqueue('b2', [{ n: 2 }], position(2));
+        first.enqueue('a1', [{ n: 3 }], position(3));
+
+        assert.strictEqual(second.getSummary().batches, 3);
+        assert.deepStrictEqual(second.getPosition('a1'), position(3));
+        assert.deepStrictEqual(first.getPosition('b2'), position(2));
+
+        const batch = second.peek()!;
+        second.remove(batch.id);
+        assert.deepStrictEqual(first.peek()!.rows, [{ n: 2 }]);
+    }));
+
+    it('only moves positions forward', inDirectory(directory => {
+        const outbox = new SyncOutbox(directory, 1024 * 1024);
+        outbox.recordPosition('a1', position(5));
+        outbox.recordPosition('a1', position(3));
+        assert.deepStrictEqual(outbox.getPosition('a1'), position(5));
+    }));
+
+    it('refuses a batch that would exceed the size cap and keeps the position', inDirectory(directory => {
+        const outbox = new SyncOutbox(directory, 200);
+        assert.strictEqual(outbox.enqueue('a1', [{ text: 'x'.repeat(500) }], position(1)), false);
+        assert.strictEqual(outbox.getSummary().batches, 0);
+        assert.strictEqual(outbox.getPosition('a1'), null);
+    }));
+
+    it('sets a corrupt batch aside and re-extracts the rest of its source', inDirectory(directory => {
+        const outbox = new SyncOutbox(directory, 1024 * 1024);
+        outbox.enqueue('a1', [{ n: 1 }], position(1));
+        outbox.enqueue('b2', [{ n: 2 }], position(2));
+        outbox.enqueue('a1', [{ n: 3 }], position(3));
+
+        const queued = fs.readdirSync(path.join(directory, 'outbox')).filter(file => file.endsWith('.json') && file.includes('-a1-')).sort();
+        fs.writeFileSync(path.join(directory, 'outbox', queued[0]), '{"id":');
+
+        assert.deepStrictEqual(outbox.peek()!.rows, [{ n: 2 }]);
+        assert.strictEqual(outbox.getSummary().batches, 1);
+        assert.strictEqual(outbox.getPosition('a1'), null);
+        assert.deepStrictEqual(outbox.getPosition('b2'), position(2));
+    }));
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { compareWatermarks, watermarkFromRows, SyncWatermark } from '../syncWatermark';
+
+const watermark = (clientRpcSendTime: number, composerId: string, bubbleId: string): SyncWatermark =>
+    ({ clientRpcSendTime, composerId, bubbleId });
+
+describe('compareWatermarks', () => {
+    it('orders by send time first', () => {
+        assert.ok(compareWatermarks(watermark(1, 'z', 'z'), watermark(2, 'a', 'a')) < 0);
+        assert.ok(compareWatermarks(watermark(2, 'a', 'a'), watermark(1, 'z', 'z')) > 0);
+    });
+
+    it('breaks ties in the same millisecond by composer, then bubble', () => {
+        assert.ok(compareWatermarks(watermark(1, 'a', 'z'), watermark(1, 'b', 'a')) < 0);
+        assert.ok(compareWatermarks(watermark(1, 'a', 'b'), watermark(1, 'a', 'a')) > 0);
+        assert.strictEqual(compareWatermarks(watermark(1, 'a', 'a'), watermark(1, 'a', 'a')), 0);
+    });
+});
+
+describe('watermarkFromRows', () => {
+    it('returns the greatest tuple and skips rows without a send time', () => {
+        const rows = [
+            { client_rpc_send_time: 5, composer_id: 'b', bubble_id: 'x' },
+            { client_rpc_send_time: 5, composer_id: 'a', bubble_id: 'y' },
+            { client_rpc_send_time: null, composer_id: 'z', bubble_id: 'z' }
+        ];
+        assert.deepStrictEqual(watermarkFromRows(rows), watermark(5, 'b', 'x'));
+    });
+
+    it('returns null when no row has a send time', () => {
+        assert.strictEqual(watermarkFromRows([]), null);
+        assert.strictEqual(watermarkFromRows([{ client_rpc_send_time: undefined }]), null);
+    });
+});
@@ -0,0 +1,8 @@
+/**
+ * Stand-in for the vscode module in unit tests: every setting reads as its default
+ */
+export const workspace = {
+    getConfiguration: () => ({
+        get: <T>(_key: string, defaultValue?: T) => defaultValue
+    })
+};
@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { readDatabaseSnapshot } from '../walSnapshot';
+
+const PAGE_SIZE = 512;
+const SALT = [0x1234, 0x5678];
+
+interface Frame {
+    page: number;
+    fill: string;
+    /** Database size in pages after this frame, or 0 if the frame does not commit */
+    commit: number;
+    salt?: number[];
+}
+
+function page(fill: string): Buffer {
+    return Buffer.alloc(PAGE_SIZE, fill);
+}
+
+function checksum(data: Buffer, seed: [number, number]): [number, number] {
+    let [s1, s2] = seed;
+    for (let i = 0; i < data.length; i += 8) {
+        s1 = (s1 + data.readUInt32LE(i) + s2) >>> 0;
+        s2 = (s2 + data.readUInt32LE(i + 4) + s1) >>> 0;
+    }
+    return [s1, s2];
+}
+
+/**
+ * WAL in SQLite's little-endian format with a valid checksum chain
+ */
+function buildWal(frames: Frame[]): Buffer {
+    const header = Buffer.alloc(32);
+    header.writeUInt32BE(0x377f0682, 0);
+    header.writeUInt32BE(3007000, 4);
+    header.writeUInt32BE(PAGE_SIZE, 8);
+    header.writeUInt32BE(SALT[0], 16);
+    header.writeUInt32BE(SALT[1], 20);
+    let sum = checksum(header.subarray(0, 24), [0, 0]);
+    header.writeUInt32BE(sum[0], 24);
+    header.writeUInt32BE(sum[1], 28);
+
+    const parts = [header];
+    for (const frame of frames) {
+        const frameHeader = Buffer.alloc(24);
+        const content = page(frame.fill);
+        const salt = frame.salt || SALT;
+        frameHeader.writeUInt32BE(frame.page, 0);
+        frameHeader.writeUInt32BE(frame.commit, 4);
+        frameHeader.writeUInt32BE(salt[0], 8);
+        frameHeader.writeUInt32BE(salt[1], 12);
+        sum = checksum(content, checksum(frameHeader.subarray(0, 8), sum));
+        frameHeader.writeUInt32BE(sum[0], 16);
+        frameHeader.writeUInt32BE(sum[1], 20);
+        parts.push(frameHeader, content);
+    }
+    return Buffer.concat(parts);
+}
+
+/** First byte of every page, to see which version of each page the snapshot holds */
+function pageFills(buffer: Buffer): string {
+    let fills = '';
+    for (let offset = 0; offset < buffer.length; offset += PAGE_SIZE) {
+        fills += String.fromCharCode(buffer[offset]);
+    }
+    return fills;
+}
+
+/** Runs a test against a three-page database (pages a, b, c) in its own directory, removed afterwards */
+const withDatabase = (run: (databasePath: string) => void) => () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wal-snapshot-'));
+    try {
+        const databasePath = path.join(directory, 'state.vscdb');
+        fs.writeFileSync(databasePath, Buffer.concat([page('a'), page('b'), page('c')]));
+        run(databasePath);
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+};
+
+describe('readDatabaseSnapshot', () => {
+    it('reads the main file alone when there is no WAL', withDatabase(databasePath => {
+        const snapshot = readDatabaseSnapshot(databasePath);
+        assert.strictEqual(pageFills(snapshot.buffer), 'abc');
+        assert.strictEqual(snapshot.walFramesApplied, 0);
+    }));
+
+    it('applies committed frames, including pages that grow the database', withDatabase(databasePath => {
+        fs.writeFileSync(`${databasePath}-wal`, buildWal([
+            { page: 2, fill: 'B', commit: 0 },
+            { page: 4, fill: 'D', commit: 4 }
+        ]));
+        const snapshot = readDatabaseSnapshot(databasePath);
+        assert.strictEqual(pageFills(snapshot.buffer), 'aBcD');
+        assert.strictEqual(snapshot.walFramesApplied, 2);
+    }));
+
+    it('uses the latest committed version of a page', withDatabase(databasePath => {
+        fs.writeFileSync(`${databasePath}-wal`, buildWal([
+            { page: 3, fill: 'x', commit: 3 },
+            { page: 3, fill: 'C', commit: 3 }
+        ]));
+        assert.strictEqual(pageFills(readDatabaseSnapshot(databasePath).buffer), 'abC');
+    }));
+
+    it('ignores frames after the last commit', withDatabase(databasePath => {
+        fs.writeFileSync(`${databasePath}-wal`, buildWal([
+            { page: 2, fill: 'B', commit: 3 },
+            { page: 3, fill: 'C', commit: 0 }
+        ]));
+        const snapshot = readDatabaseSnapshot(databasePath);
+        assert.strictEqual(pageFills(snapshot.buffer), 'aBc');
+        assert.strictEqual(snapshot.walFramesApplied, 1);
+    }));
+
+    it('stops at frames left over from an older WAL generation', withDatabase(databasePath => {
+        fs.writeFileSync(`${databasePath}-wal`, buildWal([
+            { page: 2, fill: 'B', commit: 3 },
+            { page: 3, fill: 'C', commit: 3, salt: [1, 2] }
+        ]));
+        assert.strictEqual(pageFills(readDatabaseSnapshot(databasePath).buffer), 'aBc');
+    }));
+
+    it('ignores a WAL whose header checksum does not match', withDatabase(databasePath => {
+        const wal = buildWal([{ page: 2, fill: 'B', commit: 3 }]);
+        wal.writeUInt32BE(0, 24);
+        fs.writeFileSync(`${databasePath}-wal`, wal);
+        assert.strictEqual(pageFills(readDatabaseSnapshot(databasePath).buffer), 'abc');
+    }));
+
+    it('marks the copy as a rollback-journal database', withDatabase(databasePath => {
+        const snapshot = readDatabaseSnapshot(databasePath);
+        assert.strictEqual(snapshot.buffer[18], 1);
+        assert.strictEqual(snapshot.buffer[19], 1);
+    }));
+});
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+
+const WAL_HEADER_SIZE = 32;
+const WAL_FRAME_HEADER_SIZE = 24;
+const WAL_MAGIC_LITTLE_ENDIAN = 0x377f0682;
+const WAL_MAGIC_BIG_ENDIAN = 0x377f0683;
+
+/**
+ * A read of the main file and WAL that raced with a write and has to be retried
+ */
+export class TornReadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TornReadError';
+    }
+}
+
+export interface DatabaseSnapshot {
+    /** Main database with every committed WAL frame applied, ready for sql.js */
+    buffer: Buffer;
+    walFramesApplied: number;
+    /** Identity of the files the snapshot was taken from, for cache invalidation */
+    signature: string;
+}
+
+/**
+ * mtime and size of the main file and its WAL; changes whenever Cursor writes
+ */
+export function getDatabaseSignature(databasePath: string): string {
+    const main = fs.statSync(databasePath);
+    const wal = statIfExists(`${databasePath}-wal`);
+    return `${main.mtimeMs}:${main.size}:${wal ? `${wal.mtimeMs}:${wal.size}` : '-'}`;
+}
+
+/**
+ * Copy the main database and its WAL into memory and replay the committed WAL frames,
+ * so prompts that have not been checkpointed yet are visible.
+ * Throws TornReadError if either file changed while it was being read.
+ */
+export function readDatabaseSnapshot(databasePath: string): DatabaseSnapshot {
+    const walPath = `${databasePath}-wal`;
+
+    const signatureBefore = getDatabaseSignature(databasePath);
+    const main = fs.readFileSync(databasePath);
+    const wal = statIfExists(walPath) ? readIfExists(walPath) : null;
+    const signatureAfter = getDatabaseSignature(databasePath);
+
+    if (signatureBefore !== signatureAfter) {
+        throw new TornReadError('Database changed while it was being read');
+    }
+
+    const replayed = wal && wal.length > WAL_HEADER_SIZE ? applyWal(main, wal) : { buffer: main, framesApplied: 0 };
+
+    // The copy has no WAL next to it, so mark it as a rollback-journal database
+    if (replayed.buffer.length >= 20) {
+        replayed.buffer[18] = 1;
+        replayed.buffer[19] = 1;
+    }
+
+    return { buffer: replayed.buffer, walFramesApplied: replayed.framesApplied, signature: signatureAfter };
+}
+
+/**
+ * Apply every frame up to the last valid commit. Frames after it belong to an unfinished
+ * transaction or an older WAL generation (salt mismatch) and are ignored, like SQLite does.
+ */
+function applyWal(main: Buffer, wal: Buffer): { buffer: Buffer; framesApplied: number } {
+    const magic = wal.readUInt32BE(0);
+    if (magic !== WAL_MAGIC_LITTLE_ENDIAN && magic !== WAL_MAGIC_BIG_ENDIAN) {
+        return { buffer: main, framesApplied: 0 };
+    }
+    const bigEndian = magic === WAL_MAGIC_BIG_ENDIAN;
+
+    const pageSize = wal.readUInt32BE(8);
+    const salt1 = wal.readUInt32BE(16);
+    const salt2 = wal.readUInt32BE(20);
+
+    let checksum = walChecksum(wal, 0, 24, [0, 0], bigEndian);
+    if (checksum[0] !== wal.readUInt32BE(24) || checksum[1] !== wal.readUInt32BE(28)) {
+        // Header not fully written yet - nothing in this WAL is usable
+        return { buffer: main, framesApplied: 0 };
+    }
+
+    const pending = new Map<number, number>();
+    const committed = new Map<number, number>();
+    let committedPageCount = 0;
+    let framesApplied = 0;
+
+    for (let offset = WAL_HEADER_SIZE; offset + WAL_FRAME_HEADER_SIZE + pageSize <= wal.length; offset += WAL_FRAME_HEADER_SIZE + pageSize) {
+        if (wal.readUInt32BE(offset + 8) !== salt1 || wal.readUInt32BE(offset + 12) !== salt2) {
+            break;
+        }
+
+        checksum = walChecksum(wal, offset, 8, checksum, bigEndian);
+        checksum = walChecksum(wal, offset + WAL_FRAME_HEADER_SIZE, pageSize, checksum, bigEndian);
+        if (checksum[0] !== wal.readUInt32BE(offset + 16) || checksum[1] !== wal.readUInt32BE(offset + 20)) {
+            break;
+        }
+
+        pending.set(wal.readUInt32BE(offset), offset + WAL_FRAME_HEADER_SIZE);
+
+        const pageCountAfterCommit = wal.readUInt32BE(offset + 4);
+        if (pageCountAfterCommit > 0) {
+            pending.forEach((pageOffset, pageNumber) => committed.set(pageNumber, pageOffset));
+            framesApplied += pending.size;
+            pending.clear();
+            committedPageCount = pageCountAfterCommit;
+        }
+    }
+
+    if (committedPageCount === 0) {
+        return { buffer: main, framesApplied: 0 };
+    }
+
+    const buffer = Buffer.alloc(committedPageCount * pageSize);
+    main.copy(buffer, 0, 0, Math.min(main.length, buffer.length));
+    committed.forEach((pageOffset, pageNumber) => {
+        if (pageNumber <= committedPageCount) {
+            wal.copy(buffer, (pageNumber - 1) * pageSize, pageOffset, pageOffset + pageSize);
+        }
+    });
+
+    return { buffer, framesApplied };
+}
+
+/**
+ * SQLite's WAL checksum: a running pair of 32-bit sums over 32-bit words
+ */
+function walChecksum(data: Buffer, start: number, length: number, seed: [number, number], bigEndian: boolean): [number, number] {
+    let [s1, s2] = seed;
+    for (let i = start; i < start + length; i += 8) {
+        const x0 = bigEndian ? data.readUInt32BE(i) : data.readUInt32LE(i);
+        const x1 = bigEndian ? data.readUInt32BE(i + 4) : data.readUInt32LE(i + 4);
+        s1 = (s1 + x0 + s2) >>> 0;
+        s2 = (s2 + x1 + s1) >>> 0;
+    }
+    return [s1, s2];
+}
+
+function statIfExists(filePath: string): fs.Stats | null {
+    try {
+        return fs.statSync(filePath);
+    } catch {
+        return null;
+    }
+}
+
+function readIfExists(filePath: string): Buffer | null {
+    try {
+        return fs.readFileSync(filePath);
+    } catch {
+        // Checkpointed and removed between stat and read; the signature check catches it
+        return null;
+    }
+}
@@ -1,3 +1,3 @@
 #!/bin/bash
 
-export CURSOR_PROMPT_SYNC_PASSWORD="YorkIEinterns" && echo "Testing CLI workflow..." && cursor .
\ No newline at end of file
+export CURSOR_PROMPT_SYNC_TOKEN="<your-enrollment-token>" && echo "Testing CLI workflow..." && cursor .
\ No newline at end of file